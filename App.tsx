@@ -1,43 +1,214 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Library } from './components/Library';
 import { Reader } from './components/Reader';
-import { processMangaFile } from './utils/zipUtils';
-import { MangaItem, LibraryItem } from './types';
+import { ImportQueue } from './components/ImportQueue';
+import { DuplicateDialog } from './components/DuplicateDialog';
+import { processImageFolder, processMangaFile } from './utils/zipUtils';
+import { LibraryRecord, deleteManga, getLibraryItems, getLibraryRecords, saveManga, loadManga, loadStoredPage, loadStoredThumbnail, releaseManga, restoreAnalysisExport, updateLibraryItem } from './utils/storage';
+import { pickMetadata } from './utils/comicInfo';
+import { findNextChapter } from './utils/series';
+import { loadSettings, saveSettings } from './utils/settings';
+import { VISION_PROVIDERS, getVisionProvider } from './utils/visionProviders';
+import { useImportQueue } from './utils/useImportQueue';
+import { useOnlineStatus } from './utils/useOnlineStatus';
+import { consumeLaunchedFiles } from './utils/pwa';
+import { DuplicateChoice, DuplicateMatch, carryOverUserData, findDuplicate } from './utils/duplicates';
+import { AppSettings, ImportSource, MangaItem, LibraryItem, LibraryItemChanges, PageTarget, ReadingProgress, ReaderSettings } from './types';
 
 function App() {
   const [view, setView] = useState<'library' | 'reader'>('library');
   const [currentManga, setCurrentManga] = useState<MangaItem | null>(null);
   const [libraryItems, setLibraryItems] = useState<LibraryItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [settings, setSettings] = useState<AppSettings>(loadSettings);
+  // Page (and bubble) to open the reader at instead of the last-read page
+  const [openTarget, setOpenTarget] = useState<PageTarget | undefined>(undefined);
+  // Duplicate import waiting for the user to skip, replace or keep both
+  const [duplicatePrompt, setDuplicatePrompt] = useState<{
+    name: string,
+    pageCount: number,
+    match: DuplicateMatch,
+    resolve: (choice: DuplicateChoice) => void,
+  } | null>(null);
 
-  const handleUpload = async (file: File) => {
-    setIsLoading(true);
+  // Restore the persisted library on startup
+  useEffect(() => {
+    getLibraryItems()
+      .then(setLibraryItems)
+      .catch(error => console.error("Failed to load library", error));
+  }, []);
+
+  // After a backup was merged in: entries, progress and settings may all have changed
+  const reloadLibrary = () => {
+    setSettings(loadSettings());
+    getLibraryItems()
+      .then(next => setLibraryItems(prev => {
+        prev.forEach(item => URL.revokeObjectURL(item.coverUrl));
+        return next;
+      }))
+      .catch(error => console.error("Failed to load library", error));
+  };
+
+  const handleSettingsUpdate = (next: AppSettings) => {
+    setSettings(next);
+    saveSettings(next);
+  };
+
+  const updateItem = useCallback((id: string, changes: LibraryItemChanges) => {
+    setLibraryItems(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+    updateLibraryItem(id, changes).catch(error => console.error("Failed to save library changes", error));
+  }, []);
+
+  const openManga = (manga: MangaItem) => {
+    if (currentManga && currentManga.id !== manga.id) releaseManga(currentManga);
+    setCurrentManga(manga);
+    setView('reader');
+    updateItem(manga.id, { lastOpenedAt: Date.now() });
+  };
+
+  // Called by the Reader on every page turn. isFinished is only ever set, never cleared.
+  const handlePageChange = useCallback((pageIndex: number) => {
+    if (!currentManga) return;
+    const progress: ReadingProgress = { lastReadPage: pageIndex, lastOpenedAt: Date.now() };
+    if (pageIndex >= currentManga.pageCount - 1) progress.isFinished = true;
+    updateItem(currentManga.id, progress);
+  }, [currentManga, updateItem]);
+
+  const handleSettingsChange = useCallback((readerSettings: ReaderSettings) => {
+    if (currentManga) updateItem(currentManga.id, { readerSettings });
+  }, [currentManga, updateItem]);
+
+  const handleAnnotationsChange = useCallback((changes: Pick<LibraryItemChanges, 'bookmarks' | 'annotations'>) => {
+    if (currentManga) updateItem(currentManga.id, changes);
+  }, [currentManga, updateItem]);
+
+  // Asks the user what to do with a duplicate import; the import queue waits for the answer
+  const askDuplicate = (name: string, pageCount: number, match: DuplicateMatch) =>
+    new Promise<DuplicateChoice>(resolve => setDuplicatePrompt({ name, pageCount, match, resolve }));
+
+  // Runs in the import queue: open and hash the file or folder, check it against the library,
+  // then persist it page by page. Hashing is the first half of the progress, storing the second.
+  const importSource = async (source: ImportSource, onProgress: (fraction: number) => void) => {
+    const hashProgress = (fraction: number) => onProgress(fraction / 2);
+    const { manga, sidecar, sourceHash, close } = source instanceof File
+      ? await processMangaFile(source, hashProgress)
+      : await processImageFolder(source, hashProgress);
+
+    let replaced: LibraryRecord | undefined;
+    let item: LibraryItem | undefined;
+    let imported: MangaItem;
     try {
-      const manga = await processMangaFile(file);
-      setCurrentManga(manga);
-      
-      // Add to library list (persisting just metadata for this session)
-      setLibraryItems(prev => [
-        ...prev, 
-        { id: manga.id, title: manga.title, coverUrl: manga.coverUrl }
-      ]);
-      
-      setView('reader');
+      // Compared against storage rather than state, which may not have caught up with the previous import
+      const match = findDuplicate(sourceHash, manga.pageHashes || [], await getLibraryRecords());
+      const choice = match ? await askDuplicate(source.name, manga.pageCount, match) : 'keep';
+      if (choice === 'skip') {
+        URL.revokeObjectURL(manga.coverUrl);
+        close();
+        return null;
+      }
+      replaced = choice === 'replace' ? match?.record : undefined;
+
+      // The library keeps its own cover URL so releasing the reader's one doesn't break it.
+      // It shows the thumbnail, or the full page where thumbnails can't be made.
+      const cover = manga.coverPage ?? 0;
+      item = {
+        ...pickMetadata(manga),
+        ...(replaced && carryOverUserData(replaced, manga.pageHashes || [])),
+        id: manga.id,
+        title: manga.title,
+        sourceHash,
+        coverUrl: URL.createObjectURL(await manga.loadThumbnail(cover).catch(() => manga.loadPage(cover))),
+        totalPages: manga.pageCount,
+        addedAt: Date.now(),
+      };
+      if (sidecar) {
+        item.bookmarks = sidecar.bookmarks;
+        item.annotations = sidecar.annotations;
+      }
+
+      let pageHashes: string[];
+      try {
+        pageHashes = await saveManga(item, manga, fraction => onProgress(0.5 + fraction / 2));
+      } catch (error) {
+        // Library entries are read from storage, so one that couldn't be stored isn't added
+        console.error("Failed to persist manga", error);
+        throw new Error('Failed to save it to the library. Storage may be full.');
+      }
+      // Read pages back from storage from now on, and let go of the archive
+      imported = {
+        ...manga,
+        pageHashes,
+        loadPage: index => loadStoredPage(manga.id, index),
+        loadThumbnail: index => loadStoredThumbnail(manga.id, index),
+      };
+      close();
     } catch (error) {
-      console.error("Failed to process file", error);
-      alert("Failed to process file. Please ensure it is a valid .zip or .cbz file containing images.");
-    } finally {
-      setIsLoading(false);
+      // Nothing to show for it: let go of the archive and the covers.
+      // A replaced entry is only removed once its replacement is stored, so it's still there.
+      URL.revokeObjectURL(manga.coverUrl);
+      if (item) URL.revokeObjectURL(item.coverUrl);
+      close();
+      throw error;
+    }
+
+    if (replaced) {
+      await deleteManga(replaced.id);
+      setLibraryItems(prev => {
+        prev.filter(i => i.id === replaced.id).forEach(i => URL.revokeObjectURL(i.coverUrl));
+        return prev.filter(i => i.id !== replaced.id);
+      });
+      // Its pages are gone, so it can't stay open in the reader
+      setCurrentManga(prev => {
+        if (prev?.id !== replaced.id) return prev;
+        releaseManga(prev);
+        return null;
+      });
+    }
+
+    // An annotated CBZ brings its analysis along; cache it so the reader shows it without calling the model
+    const sidecarProvider = sidecar && VISION_PROVIDERS[sidecar.provider];
+    if (sidecar && sidecarProvider && imported.pageHashes) {
+      await restoreAnalysisExport(sidecar, sidecarProvider, imported.pageHashes)
+        .catch(error => console.error("Failed to restore exported analysis", error));
     }
+
+    const entry = item;
+    setLibraryItems(prev => [...prev, entry]);
+    return imported;
   };
 
-  const handleSelectManga = (id: string) => {
-    // In a real app with persistence, we would load the manga pages from storage here.
-    // For this memory-only version, we check if it's the currently loaded one.
-    if (currentManga && currentManga.id === id) {
-        setView('reader');
+  // A single file is opened straight away, unless the reader was opened meanwhile; bulk imports stay in the library
+  const handleImported = (manga: MangaItem, single: boolean) => {
+    if (single && view === 'library') {
+      setOpenTarget(undefined);
+      openManga(manga);
     } else {
-        alert("In-memory storage limit: Only the most recently uploaded manga is readable.");
+      releaseManga(manga);
+    }
+  };
+
+  const imports = useImportQueue(importSource, handleImported);
+
+  // Files opened with the installed app (e.g. double-clicking a .cbz) are imported like picked ones
+  useEffect(() => consumeLaunchedFiles(imports.enqueue), [imports.enqueue]);
+
+  const isOnline = useOnlineStatus();
+
+  const handleSelectManga = async (id: string, target?: PageTarget) => {
+    setOpenTarget(target);
+    if (currentManga && currentManga.id === id) {
+      openManga(currentManga);
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      openManga(await loadManga(id));
+    } catch (error) {
+      console.error("Failed to load manga", error);
+      alert("Failed to open this manga from the library storage.");
+    } finally {
+      setIsLoading(false);
     }
   };
 
@@ -45,24 +216,70 @@ function App() {
     setView('library');
   };
 
+  const duplicateDialog = duplicatePrompt && (
+    <DuplicateDialog
+      name={duplicatePrompt.name}
+      pageCount={duplicatePrompt.pageCount}
+      match={duplicatePrompt.match}
+      onChoose={(choice) => {
+        duplicatePrompt.resolve(choice);
+        setDuplicatePrompt(null);
+      }}
+    />
+  );
+
   if (view === 'reader' && currentManga) {
-    return <Reader manga={currentManga} onClose={handleCloseReader} />;
+    const item = libraryItems.find(i => i.id === currentManga.id);
+    const nextChapter = item && findNextChapter(libraryItems, item);
+    return (
+      <>
+        <Reader
+          key={openTarget ? `${currentManga.id}@${openTarget.pageIndex}` : currentManga.id}
+          manga={currentManga}
+          initialPage={openTarget?.pageIndex ?? item?.lastReadPage}
+          highlight={openTarget}
+          onPageChange={handlePageChange}
+          visionProvider={getVisionProvider(settings.visionProvider)}
+          isOffline={!isOnline}
+          queueOptions={{ concurrency: settings.analysisConcurrency, requestsPerMinute: settings.analysisRequestsPerMinute }}
+          translationLanguage={settings.translationLanguage}
+          imageQuality={settings.imageQuality}
+          settings={item?.readerSettings}
+          onSettingsChange={handleSettingsChange}
+          bookmarks={item?.bookmarks}
+          annotations={item?.annotations}
+          onAnnotationsChange={handleAnnotationsChange}
+          nextChapterTitle={nextChapter?.title}
+          onNextChapter={nextChapter ? () => handleSelectManga(nextChapter.id) : undefined}
+          onClose={handleCloseReader}
+        />
+        {duplicateDialog}
+      </>
+    );
   }
 
   return (
     <>
-      <Library 
-        items={libraryItems} 
-        onSelect={handleSelectManga} 
-        onUpload={handleUpload} 
+      <Library
+        items={libraryItems}
+        onSelect={handleSelectManga}
+        onImport={imports.enqueue}
+        onItemChange={updateItem}
+        onLibraryRestored={reloadLibrary}
+        isOffline={!isOnline}
+        settings={settings}
+        onSettingsChange={handleSettingsUpdate}
       />
-      
+
+      <ImportQueue jobs={imports.jobs} onClear={imports.clearFinished} />
+      {duplicateDialog}
+
       {/* Loading Overlay */}
       {isLoading && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/80 backdrop-blur-sm">
            <div className="flex flex-col items-center gap-4">
               <div className="h-12 w-12 animate-spin rounded-full border-4 border-primary border-t-transparent"></div>
-              <p className="text-white font-medium animate-pulse">Processing Manga...</p>
+              <p className="text-white font-medium animate-pulse">Opening Manga...</p>
            </div>
         </div>
       )}
@@ -70,4 +287,4 @@ function App() {
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Bookmark, BubbleAnnotation } from '../types';
+
+interface AnnotationsPanelProps {
+  bookmarks: Bookmark[];
+  annotations: BubbleAnnotation[];
+  focusId?: string | null; // Just-created entry whose note gets the focus
+  onJump: (pageIndex: number) => void;
+  onBookmarksChange: (bookmarks: Bookmark[]) => void;
+  onAnnotationsChange: (annotations: BubbleAnnotation[]) => void;
+  onClose: () => void;
+}
+
+type Entry = { pageIndex: number, createdAt: number };
+const byPage = (a: Entry, b: Entry) => a.pageIndex - b.pageIndex || a.createdAt - b.createdAt;
+
+// Notes are saved when the field loses focus, not on every keystroke
+const NoteField: React.FC<{ value: string, placeholder: string, autoFocus: boolean, onSave: (value: string) => void }> = ({ value, placeholder, autoFocus, onSave }) => (
+  <textarea
+    key={value}
+    defaultValue={value}
+    placeholder={placeholder}
+    autoFocus={autoFocus}
+    rows={2}
+    onBlur={(e) => { if (e.target.value !== value) onSave(e.target.value); }}
+    className="w-full px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-sm text-white placeholder:text-white/30 resize-none focus:outline-none focus:border-primary"
+  />
+);
+
+// Bookmarks and bubble annotations of the open manga, in page order
+export const AnnotationsPanel: React.FC<AnnotationsPanelProps> = ({ bookmarks, annotations, focusId, onJump, onBookmarksChange, onAnnotationsChange, onClose }) => {
+  const pageButton = (pageIndex: number) => (
+    <button onClick={() => onJump(pageIndex)} className="text-xs font-medium text-primary hover:underline">
+      Page {pageIndex + 1}
+    </button>
+  );
+  const deleteButton = (onDelete: () => void) => (
+    <button onClick={onDelete} className="size-7 flex items-center justify-center rounded-lg text-white/40 hover:text-white hover:bg-white/10 transition-colors" title="Delete">
+      <span className="material-symbols-outlined text-lg">delete</span>
+    </button>
+  );
+
+  return (
+    <aside
+      className="fixed top-0 right-0 bottom-0 z-[60] w-80 max-w-[90vw] flex flex-col bg-reader-dark/95 backdrop-blur-xl border-l border-white/10 shadow-2xl text-white"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <h2 className="text-lg font-semibold">Notes</h2>
+        <button onClick={onClose} className="size-10 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors" aria-label="Close notes">
+          <span className="material-symbols-outlined">close</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 flex flex-col gap-8">
+        <section>
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-3">Bookmarks</h3>
+          {bookmarks.length === 0 ? (
+            <p className="text-xs text-white/40">No bookmarks yet. Use the bookmark button to mark the current page.</p>
+          ) : (
+            <ul className="flex flex-col gap-3">
+              {[...bookmarks].sort(byPage).map(bookmark => (
+                <li key={bookmark.id} className="flex flex-col gap-1">
+                  <div className="flex items-center justify-between">
+                    {pageButton(bookmark.pageIndex)}
+                    {deleteButton(() => onBookmarksChange(bookmarks.filter(b => b.id !== bookmark.id)))}
+                  </div>
+                  <NoteField
+                    value={bookmark.note}
+                    placeholder="Add a note…"
+                    autoFocus={bookmark.id === focusId}
+                    onSave={note => onBookmarksChange(bookmarks.map(b => b.id === bookmark.id ? { ...b, note } : b))}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-3">Annotations</h3>
+          {annotations.length === 0 ? (
+            <p className="text-xs text-white/40">No annotations yet. Turn on annotate mode and tap a speech bubble.</p>
+          ) : (
+            <ul className="flex flex-col gap-3">
+              {[...annotations].sort(byPage).map(annotation => (
+                <li key={annotation.id} className="flex flex-col gap-1">
+                  <div className="flex items-center justify-between">
+                    {pageButton(annotation.pageIndex)}
+                    {deleteButton(() => onAnnotationsChange(annotations.filter(a => a.id !== annotation.id)))}
+                  </div>
+                  <blockquote className="pl-2 border-l-2 border-yellow-300 text-sm text-white/70 line-clamp-3">{annotation.bubbleText}</blockquote>
+                  <NoteField
+                    value={annotation.comment}
+                    placeholder="Add a comment…"
+                    autoFocus={annotation.id === focusId}
+                    onSave={comment => onAnnotationsChange(annotations.map(a => a.id === annotation.id ? { ...a, comment } : a))}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </aside>
+  );
+};
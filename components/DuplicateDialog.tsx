@@ -0,0 +1,47 @@
+import React from 'react';
+import { DuplicateChoice, DuplicateMatch } from '../utils/duplicates';
+
+interface DuplicateDialogProps {
+  name: string; // File or folder being imported
+  pageCount: number;
+  match: DuplicateMatch;
+  onChoose: (choice: DuplicateChoice) => void;
+}
+
+const CHOICES: { choice: DuplicateChoice, label: string, description: string }[] = [
+  { choice: 'skip', label: 'Skip', description: "Don't import it" },
+  { choice: 'replace', label: 'Replace', description: 'Keeps progress, notes and tags' },
+  { choice: 'keep', label: 'Keep both', description: 'Import it as a separate entry' },
+];
+
+// Asked by the import queue, which waits for the answer. Dismissing it counts as skipping.
+export const DuplicateDialog: React.FC<DuplicateDialogProps> = ({ name, pageCount, match, onChoose }) => (
+  <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={() => onChoose('skip')}>
+    <div
+      className="w-full max-w-md rounded-2xl bg-reader-dark border border-white/10 shadow-2xl p-6 text-white"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center gap-3 mb-3">
+        <span className="material-symbols-outlined text-2xl text-yellow-300">content_copy</span>
+        <h2 className="text-xl font-semibold">{match.exact ? 'Already in your library' : 'Possible duplicate'}</h2>
+      </div>
+      <p className="text-sm text-white/70 mb-6">
+        {match.exact
+          ? <>&ldquo;{name}&rdquo; is the same as &ldquo;{match.record.title}&rdquo;.</>
+          : <>&ldquo;{name}&rdquo; shares {match.sharedPages} of its {pageCount} pages with &ldquo;{match.record.title}&rdquo;. It may be a re-release of the same chapter.</>}
+      </p>
+      <div className="flex flex-col gap-2">
+        {CHOICES.map(({ choice, label, description }) => (
+          <button
+            key={choice}
+            onClick={() => onChoose(choice)}
+            className="flex items-center justify-between gap-4 px-4 py-3 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-colors text-left"
+          >
+            <span className="text-sm font-medium">{label}</span>
+            <span className="text-xs text-white/50">{description}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  </div>
+);
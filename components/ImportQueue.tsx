@@ -0,0 +1,58 @@
+import React from 'react';
+import { ImportJob } from '../utils/useImportQueue';
+
+interface ImportQueueProps {
+  jobs: ImportJob[];
+  onClear: () => void;
+}
+
+const STATUS_ICONS: Record<ImportJob['status'], { icon: string, className: string }> = {
+  queued: { icon: 'schedule', className: 'text-white/40' },
+  importing: { icon: 'progress_activity', className: 'text-primary animate-spin' },
+  done: { icon: 'check_circle', className: 'text-primary' },
+  skipped: { icon: 'do_not_disturb_on', className: 'text-white/40' },
+  error: { icon: 'error', className: 'text-red-400' },
+};
+
+// Progress of background imports, one row per file or folder
+export const ImportQueue: React.FC<ImportQueueProps> = ({ jobs, onClear }) => {
+  if (jobs.length === 0) return null;
+
+  const finished = jobs.filter(job => job.status !== 'queued' && job.status !== 'importing').length;
+  const failed = jobs.filter(job => job.status === 'error').length;
+  const skipped = jobs.filter(job => job.status === 'skipped').length;
+  const isRunning = finished < jobs.length;
+
+  return (
+    <div className="fixed bottom-8 left-8 z-50 w-80 max-w-[calc(100vw-8rem)] rounded-xl bg-reader-dark/95 backdrop-blur-xl border border-white/10 shadow-2xl text-white">
+      <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-white/10">
+        <p className="text-sm font-medium">
+          {isRunning ? `Importing ${finished + 1} of ${jobs.length}` : `Imported ${jobs.length - failed - skipped} of ${jobs.length}`}
+          {skipped > 0 && <span className="text-white/50"> · {skipped} skipped</span>}
+          {failed > 0 && <span className="text-red-400"> · {failed} failed</span>}
+        </p>
+        {finished > 0 && (
+          <button onClick={onClear} className="text-xs text-white/60 hover:text-white transition-colors">
+            Clear finished
+          </button>
+        )}
+      </div>
+      <ul className="max-h-64 overflow-y-auto p-2 flex flex-col gap-1">
+        {jobs.map(job => (
+          <li key={job.id} className="flex items-start gap-3 p-2 rounded-lg">
+            <span className={`material-symbols-outlined text-xl ${STATUS_ICONS[job.status].className}`}>{STATUS_ICONS[job.status].icon}</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate" title={job.name}>{job.name}</p>
+              {job.status === 'importing' && (
+                <div className="mt-1.5 h-1 rounded-full bg-white/10">
+                  <div className="h-full rounded-full bg-primary transition-[width]" style={{ width: `${job.progress * 100}%` }} />
+                </div>
+              )}
+              {job.error && <p className="mt-0.5 text-xs text-red-400 line-clamp-2" title={job.error}>{job.error}</p>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -1,28 +1,221 @@
-import React, { useRef } from 'react';
-import { LibraryItem } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import { AppSettings, Collection, ImportSource, LibraryItem, LibraryItemChanges, LibrarySort, LibraryView, PageTarget, ReadStatus } from '../types';
+import { SeriesGroup, groupBySeries } from '../utils/series';
+import {
+  GridEntry, SORT_LABELS, STATUS_LABELS, allTags, filterItems, getProgress, loadCollections, loadLibraryView,
+  saveCollections, saveLibraryView, sortEntries,
+} from '../utils/libraryView';
+import { SearchIndex, buildSearchIndex, searchIndex } from '../utils/search';
+import { pickedSources, readDroppedSources } from '../utils/importSources';
+import { SettingsPanel } from './SettingsPanel';
+import { SearchResults } from './SearchResults';
+import { OrganizeDialog } from './OrganizeDialog';
 
 interface LibraryProps {
   items: LibraryItem[];
-  onSelect: (id: string) => void;
-  onUpload: (file: File) => void;
+  onSelect: (id: string, target?: PageTarget) => void; // target opens a specific page (search hits)
+  onImport: (sources: ImportSource[]) => void;
+  onItemChange: (id: string, changes: LibraryItemChanges) => void; // Tags and collections
+  onLibraryRestored: () => void;
+  isOffline?: boolean;
+  settings: AppSettings;
+  onSettingsChange: (settings: AppSettings) => void;
 }
 
-export const Library: React.FC<LibraryProps> = ({ items, onSelect, onUpload }) => {
+export const Library: React.FC<LibraryProps> = ({ items, onSelect, onImport, onItemChange, onLibraryRestored, isOffline = false, settings, onSettingsChange }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Started but unfinished manga, most recently opened first
+  const continueReading = useMemo(() => items
+    .filter(item => item.lastOpenedAt && item.lastReadPage !== undefined && !item.isFinished)
+    .sort((a, b) => (b.lastOpenedAt || 0) - (a.lastOpenedAt || 0)),
+  [items]);
+
+  // Sort and filters are saved; the title filter is not
+  const [view, setView] = useState<LibraryView>(loadLibraryView);
+  const [titleQuery, setTitleQuery] = useState('');
+  const updateView = (changes: Partial<LibraryView>) => {
+    const next = { ...view, ...changes };
+    setView(next);
+    saveLibraryView(next);
+  };
+
+  const [collections, setCollections] = useState<Collection[]>(loadCollections);
+  const updateCollections = (next: Collection[]) => {
+    setCollections(next);
+    saveCollections(next);
+  };
+  const tags = useMemo(() => allTags(items), [items]);
+  const [organizeId, setOrganizeId] = useState<string | null>(null);
+  const organizeItem = items.find(item => item.id === organizeId);
+
+  // A tag or collection that no longer exists doesn't filter anything
+  const activeView: LibraryView = {
+    ...view,
+    tag: view.tag && tags.includes(view.tag) ? view.tag : null,
+    collectionId: collections.some(collection => collection.id === view.collectionId) ? view.collectionId : null,
+  };
+  const isFiltered = activeView.status !== 'all' || !!activeView.tag || !!activeView.collectionId || !!titleQuery.trim();
+
+  // Series are grouped after filtering, so a series shows up when any of its chapters match
+  const entries = useMemo(() => {
+    const { series, standalone } = groupBySeries(filterItems(items, activeView, titleQuery));
+    const all: GridEntry[] = [...series.map(group => ({ group })), ...standalone.map(item => ({ item }))];
+    return sortEntries(all, activeView.sort);
+  }, [items, activeView.sort, activeView.status, activeView.tag, activeView.collectionId, titleQuery]);
+
+  // The series page lists every chapter, whatever the filters
+  const { series } = useMemo(() => groupBySeries(items), [items]);
+  const [openSeriesKey, setOpenSeriesKey] = useState<string | null>(null);
+  const openSeries = series.find(group => group.key === openSeriesKey);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const createCollection = (name: string): Collection => {
+    const collection = { id: crypto.randomUUID(), name };
+    updateCollections([...collections, collection]);
+    return collection;
+  };
+
+  // Entries keep the ids of deleted collections until now; drop them too
+  const deleteCollection = (id: string) => {
+    const collection = collections.find(c => c.id === id);
+    if (!collection || !confirm(`Delete the collection "${collection.name}"? Its manga stay in the library.`)) return;
+    updateCollections(collections.filter(c => c.id !== id));
+    items
+      .filter(item => item.collectionIds?.includes(id))
+      .forEach(item => onItemChange(item.id, { collectionIds: item.collectionIds!.filter(c => c !== id) }));
+    updateView({ collectionId: null });
+  };
+
+  // Search: the index is rebuilt every time search is opened, so it includes the latest analysis
+  const [isSearching, setIsSearching] = useState(false);
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const hits = useMemo(() => index && query.trim() ? searchIndex(index, query) : [], [index, query]);
+
+  const openSearch = () => {
+    setIsSearching(true);
+    setIndex(null);
+    buildSearchIndex()
+      .then(setIndex)
+      .catch(error => console.error("Failed to build search index", error));
+  };
+
+  const closeSearch = () => {
+    setIsSearching(false);
+    setQuery('');
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onUpload(e.target.files[0]);
+    if (e.target.files && e.target.files.length > 0) {
+      onImport(pickedSources(e.target.files));
     }
+    e.target.value = ''; // Allow picking the same files again
+  };
+
+  // Drag & drop of files and folders anywhere on the library.
+  // dragenter/dragleave fire for every child element, so count them to know when the drag really left.
+  const [isDragging, setIsDragging] = useState(false);
+  const dragDepth = useRef(0);
+  const isFileDrag = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    dragDepth.current = Math.max(dragDepth.current - 1, 0);
+    if (dragDepth.current === 0) setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!isFileDrag(e)) return;
+    e.preventDefault();
+    dragDepth.current = 0;
+    setIsDragging(false);
+    readDroppedSources(e.dataTransfer)
+      .then(sources => {
+        if (sources.length > 0) onImport(sources);
+      })
+      .catch(error => console.error("Failed to read dropped files", error));
   };
 
   return (
-    <div className="min-h-screen bg-background-dark text-white font-display">
+    <div
+      className="min-h-screen bg-background-dark text-white font-display"
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => { if (isFileDrag(e)) e.preventDefault(); }}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
       {/* Top Navigation Bar */}
       <header className="sticky top-0 z-50 flex items-center justify-between px-6 py-6 bg-background-dark/80 backdrop-blur-md border-b border-white/5">
-        <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-[#a78bfa] to-[#4b2bee] bg-clip-text text-transparent">
-          Library
-        </h1>
+        {isSearching ? (
+          <div className="flex items-center gap-3 flex-1 min-w-0 mr-3">
+            <button
+              onClick={closeSearch}
+              className="size-10 shrink-0 flex items-center justify-center rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-colors"
+              aria-label="Close search"
+            >
+              <span className="material-symbols-outlined text-2xl">arrow_back</span>
+            </button>
+            <input
+              autoFocus
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={index ? 'Search dialogue in your library' : 'Indexing...'}
+              className="flex-1 min-w-0 h-10 px-4 rounded-lg bg-white/5 border border-white/10 focus:border-primary/60 outline-none text-sm"
+            />
+          </div>
+        ) : (
+        <div className="flex items-center gap-3 min-w-0">
+          {openSeries && (
+            <button
+              onClick={() => setOpenSeriesKey(null)}
+              className="size-10 flex items-center justify-center rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-colors"
+              aria-label="Back to library"
+            >
+              <span className="material-symbols-outlined text-2xl">arrow_back</span>
+            </button>
+          )}
+          <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-[#a78bfa] to-[#4b2bee] bg-clip-text text-transparent truncate">
+            {openSeries ? openSeries.name : 'Library'}
+          </h1>
+        </div>
+        )}
+        <div className="flex items-center gap-2">
+        {/* Reading works offline; analysis with a network provider doesn't */}
+        {isOffline && (
+          <span
+            className="flex items-center gap-1.5 h-10 px-3 rounded-lg bg-white/5 border border-white/10 text-xs text-white/60"
+            title="You're offline. Your library still works; online text recognition and translation are unavailable."
+          >
+            <span className="material-symbols-outlined text-lg">cloud_off</span>
+            <span className="hidden sm:inline">Offline</span>
+          </span>
+        )}
+        {!isSearching && items.length > 0 && (
+          <button
+            onClick={openSearch}
+            className="size-10 flex items-center justify-center rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-colors"
+            aria-label="Search"
+          >
+            <span className="material-symbols-outlined text-2xl">search</span>
+          </button>
+        )}
+        <button
+          onClick={() => setShowSettings(true)}
+          className="size-10 flex items-center justify-center rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-colors"
+          aria-label="Settings"
+        >
+          <span className="material-symbols-outlined text-2xl">settings</span>
+        </button>
+        </div>
       </header>
 
       {/* Manga Grid Section */}
@@ -31,7 +224,7 @@ export const Library: React.FC<LibraryProps> = ({ items, onSelect, onUpload }) =
           <div className="flex flex-col items-center justify-center h-[60vh] text-center text-white/50">
              <span className="material-symbols-outlined text-7xl mb-6 text-white/10">library_books</span>
              <h2 className="text-xl font-medium text-white mb-2">Your library is empty</h2>
-             <p className="text-sm max-w-md mx-auto mb-8">Upload a local .cbz or .zip file to start reading your manga collection.</p>
+             <p className="text-sm max-w-md mx-auto mb-8">Upload local .cbz, .cbr, .cb7 or .pdf files, or drop files and folders of images here, to start reading your manga collection.</p>
              <button
                 onClick={() => fileInputRef.current?.click()}
                 className="px-8 py-3 bg-primary hover:bg-primary/90 text-white rounded-full font-medium transition-all shadow-[0_0_20px_rgba(75,43,238,0.3)] hover:shadow-[0_0_25px_rgba(75,43,238,0.5)] active:scale-95"
@@ -39,34 +232,149 @@ export const Library: React.FC<LibraryProps> = ({ items, onSelect, onUpload }) =
                 Upload Manga
              </button>
           </div>
+        ) : isSearching && query.trim() ? (
+          <SearchResults items={items} hits={hits} onOpen={onSelect} />
+        ) : openSeries ? (
+          <SeriesDetail group={openSeries} onSelect={onSelect} onOrganize={setOrganizeId} />
         ) : (
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
-            {items.map((item) => (
-              <div 
-                key={item.id}
-                onClick={() => onSelect(item.id)}
-                className="group relative aspect-[2/3] overflow-hidden rounded-lg bg-primary/10 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] cursor-pointer ring-1 ring-white/10 hover:ring-primary/50"
+          <>
+            {/* Sort & filters */}
+            <div className="flex flex-wrap items-center gap-2 mb-6">
+              <div className="relative flex-1 min-w-48 max-w-sm">
+                <span className="material-symbols-outlined absolute left-2.5 top-1/2 -translate-y-1/2 text-lg text-white/40">filter_list</span>
+                <input
+                  type="search"
+                  value={titleQuery}
+                  onChange={(e) => setTitleQuery(e.target.value)}
+                  placeholder="Filter by title"
+                  className="w-full h-9 pl-9 pr-3 rounded-lg bg-white/5 border border-white/10 focus:border-primary/60 outline-none text-sm"
+                />
+              </div>
+              <select
+                value={view.sort}
+                onChange={(e) => updateView({ sort: e.target.value as LibrarySort })}
+                className="h-9 px-2 rounded-lg bg-white/5 border border-white/10 text-sm"
+                aria-label="Sort by"
+              >
+                {Object.entries(SORT_LABELS).map(([value, label]) => <option key={value} value={value}>Sort: {label}</option>)}
+              </select>
+              <select
+                value={view.status}
+                onChange={(e) => updateView({ status: e.target.value as ReadStatus | 'all' })}
+                className="h-9 px-2 rounded-lg bg-white/5 border border-white/10 text-sm"
+                aria-label="Read status"
               >
-                <div 
-                  className="h-full w-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110" 
-                  style={{ backgroundImage: `url('${item.coverUrl}')` }}
+                {Object.entries(STATUS_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+              </select>
+              {tags.length > 0 && (
+                <select
+                  value={activeView.tag || ''}
+                  onChange={(e) => updateView({ tag: e.target.value || null })}
+                  className="h-9 px-2 rounded-lg bg-white/5 border border-white/10 text-sm"
+                  aria-label="Tag"
                 >
-                  <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-4">
-                      <p className="text-sm font-medium text-white line-clamp-2">{item.title}</p>
-                  </div>
+                  <option value="">All tags</option>
+                  {tags.map(tag => <option key={tag} value={tag}>{tag}</option>)}
+                </select>
+              )}
+              {collections.length > 0 && (
+                <select
+                  value={activeView.collectionId || ''}
+                  onChange={(e) => updateView({ collectionId: e.target.value || null })}
+                  className="h-9 px-2 rounded-lg bg-white/5 border border-white/10 text-sm"
+                  aria-label="Collection"
+                >
+                  <option value="">All collections</option>
+                  {collections.map(collection => <option key={collection.id} value={collection.id}>{collection.name}</option>)}
+                </select>
+              )}
+              {activeView.collectionId && (
+                <button
+                  onClick={() => deleteCollection(activeView.collectionId!)}
+                  className="size-9 flex items-center justify-center rounded-lg text-white/50 hover:text-white hover:bg-white/10 transition-colors"
+                  title="Delete this collection"
+                >
+                  <span className="material-symbols-outlined text-xl">delete</span>
+                </button>
+              )}
+            </div>
+
+            {/* Continue Reading Shelf */}
+            {!isFiltered && continueReading.length > 0 && (
+              <section className="mb-8">
+                <h2 className="text-lg font-semibold text-white/90 mb-3">Continue reading</h2>
+                <div className="flex gap-4 overflow-x-auto pb-2">
+                  {continueReading.map((item) => (
+                    <div key={item.id} className="w-32 sm:w-40 shrink-0">
+                      <MangaCard item={item} onSelect={onSelect} onOrganize={setOrganizeId} />
+                    </div>
+                  ))}
                 </div>
+              </section>
+            )}
+
+            {entries.length === 0 ? (
+              <div className="flex flex-col items-center py-16 text-center text-white/50">
+                <p className="text-sm mb-4">Nothing in your library matches these filters.</p>
+                <button
+                  onClick={() => { setTitleQuery(''); updateView({ status: 'all', tag: null, collectionId: null }); }}
+                  className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 text-sm text-white transition-colors"
+                >
+                  Clear filters
+                </button>
               </div>
-            ))}
-          </div>
+            ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
+              {entries.map((entry) => 'group' in entry ? (
+                <SeriesCard key={entry.group.key} group={entry.group} onOpen={() => setOpenSeriesKey(entry.group.key)} />
+              ) : (
+                <MangaCard key={entry.item.id} item={entry.item} onSelect={onSelect} onOrganize={setOrganizeId} />
+              ))}
+            </div>
+            )}
+          </>
         )}
       </main>
 
+      {/* Drop target */}
+      {isDragging && (
+        <div className="fixed inset-0 z-[90] m-4 flex flex-col items-center justify-center gap-4 rounded-2xl border-2 border-dashed border-primary bg-background-dark/90 backdrop-blur-sm pointer-events-none">
+          <span className="material-symbols-outlined text-6xl text-primary">upload</span>
+          <p className="text-lg font-medium">Drop manga files or folders to import</p>
+        </div>
+      )}
+
+      {organizeItem && (
+        <OrganizeDialog
+          item={organizeItem}
+          tags={tags}
+          collections={collections}
+          onChange={(changes) => onItemChange(organizeItem.id, changes)}
+          onCreateCollection={createCollection}
+          onClose={() => setOrganizeId(null)}
+        />
+      )}
+
+      {showSettings && (
+        <SettingsPanel
+          settings={settings}
+          onChange={onSettingsChange}
+          items={items}
+          onRestored={() => {
+            setCollections(loadCollections());
+            onLibraryRestored();
+          }}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
+
       {/* Upload Button (FAB) - Only show if items exist */}
       <input 
         type="file" 
         ref={fileInputRef} 
         onChange={handleFileChange} 
-        accept=".zip,.cbz,.rar" 
+        accept=".zip,.cbz,.rar,.cbr,.7z,.cb7,.pdf" 
+        multiple
         className="hidden" 
       />
       {items.length > 0 && (
@@ -80,4 +388,116 @@ export const Library: React.FC<LibraryProps> = ({ items, onSelect, onUpload }) =
       )}
     </div>
   );
-};
\ No newline at end of file
+};
+
+// Opens the tags & collections dialog without opening the manga
+const OrganizeButton: React.FC<{ onClick: () => void, className?: string }> = ({ onClick, className = '' }) => (
+  <button
+    onClick={(e) => { e.stopPropagation(); onClick(); }}
+    className={`size-8 flex items-center justify-center rounded-full bg-black/70 text-white/80 hover:text-white transition-opacity ${className}`}
+    title="Tags & collections"
+  >
+    <span className="material-symbols-outlined text-lg">sell</span>
+  </button>
+);
+
+const MangaCard: React.FC<{ item: LibraryItem, onSelect: (id: string) => void, onOrganize: (id: string) => void }> = ({ item, onSelect, onOrganize }) => {
+  const progress = getProgress(item);
+
+  return (
+    <div
+      onClick={() => onSelect(item.id)}
+      className="group relative aspect-[2/3] overflow-hidden rounded-lg bg-primary/10 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] cursor-pointer ring-1 ring-white/10 hover:ring-primary/50"
+    >
+      <div
+        className="h-full w-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110"
+        style={{ backgroundImage: `url('${item.coverUrl}')` }}
+      >
+        <div className="absolute inset-0 bg-gradient-to-t from-black/80 via-transparent to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300 flex items-end p-4">
+            <p className="text-sm font-medium text-white line-clamp-2">{item.title}</p>
+        </div>
+      </div>
+
+      <OrganizeButton onClick={() => onOrganize(item.id)} className="absolute top-2 left-2 opacity-0 group-hover:opacity-100 focus:opacity-100" />
+
+      {/* Reading Progress */}
+      {item.isFinished ? (
+        <div className="absolute top-2 right-2 flex items-center justify-center size-6 rounded-full bg-primary text-white shadow-md">
+          <span className="material-symbols-outlined text-base">check</span>
+        </div>
+      ) : progress > 0 && (
+        <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/10">
+          <div className="h-full bg-primary" style={{ width: `${progress * 100}%` }} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SeriesCard: React.FC<{ group: SeriesGroup, onOpen: () => void }> = ({ group, onOpen }) => {
+  const readCount = group.items.filter(item => item.isFinished).length;
+
+  return (
+    <div
+      onClick={onOpen}
+      className="group relative aspect-[2/3] overflow-hidden rounded-lg bg-primary/10 transition-all duration-300 hover:scale-[1.02] active:scale-[0.98] cursor-pointer ring-1 ring-white/10 hover:ring-primary/50"
+    >
+      <div
+        className="h-full w-full bg-cover bg-center transition-transform duration-500 group-hover:scale-110"
+        style={{ backgroundImage: `url('${group.items[0].coverUrl}')` }}
+      />
+      <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-black/20 to-transparent flex flex-col justify-end p-4">
+        <p className="text-sm font-semibold text-white line-clamp-2">{group.name}</p>
+        <p className="text-xs text-white/60">{readCount}/{group.items.length} read</p>
+      </div>
+      <div className="absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full bg-black/70 text-xs font-medium">
+        <span className="material-symbols-outlined text-sm">collections_bookmark</span>
+        {group.items.length}
+      </div>
+    </div>
+  );
+};
+
+// "Vol. 3 · Ch. 21", falling back to the title when there's no numbering
+const chapterLabel = (item: LibraryItem) => {
+  const parts: string[] = [];
+  if (item.volume !== undefined) parts.push(`Vol. ${item.volume}`);
+  if (item.chapter !== undefined) parts.push(`Ch. ${item.chapter}`);
+  return parts.length > 0 ? parts.join(' · ') : item.title;
+};
+
+const SeriesDetail: React.FC<{ group: SeriesGroup, onSelect: (id: string) => void, onOrganize: (id: string) => void }> = ({ group, onSelect, onOrganize }) => (
+  <ul className="flex flex-col gap-2 max-w-3xl mx-auto">
+    {group.items.map((item) => {
+      const progress = getProgress(item);
+      const state = item.isFinished ? 'Read' : progress > 0 ? `${Math.round(progress * 100)}%` : 'Unread';
+
+      return (
+        <li
+          key={item.id}
+          onClick={() => onSelect(item.id)}
+          className="flex items-center gap-4 p-2 rounded-lg bg-white/5 ring-1 ring-white/10 hover:ring-primary/50 hover:bg-white/10 cursor-pointer transition-colors"
+        >
+          <div
+            className="h-16 w-11 shrink-0 rounded bg-cover bg-center bg-primary/10"
+            style={{ backgroundImage: `url('${item.coverUrl}')` }}
+          />
+          <div className="flex-1 min-w-0">
+            <p className={`text-sm font-medium truncate ${item.isFinished ? 'text-white/50' : 'text-white'}`}>{chapterLabel(item)}</p>
+            <p className="text-xs text-white/40 truncate">{item.title}</p>
+            {progress > 0 && !item.isFinished && (
+              <div className="mt-2 h-1 w-full max-w-48 rounded-full bg-white/10">
+                <div className="h-full rounded-full bg-primary" style={{ width: `${progress * 100}%` }} />
+              </div>
+            )}
+          </div>
+          <span className={`text-xs font-medium shrink-0 ${item.isFinished ? 'text-primary' : 'text-white/60'}`}>
+            {item.isFinished && <span className="material-symbols-outlined text-base align-middle mr-1">check_circle</span>}
+            {state}
+          </span>
+          <OrganizeButton onClick={() => onOrganize(item.id)} className="shrink-0" />
+        </li>
+      );
+    })}
+  </ul>
+);
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { Collection, LibraryItem, LibraryItemChanges } from '../types';
+
+interface OrganizeDialogProps {
+  item: LibraryItem;
+  tags: string[]; // Every tag in the library, offered as suggestions
+  collections: Collection[];
+  onChange: (changes: Pick<LibraryItemChanges, 'tags' | 'collectionIds'>) => void;
+  onCreateCollection: (name: string) => Collection;
+  onClose: () => void;
+}
+
+// Tags and collections of one library entry
+export const OrganizeDialog: React.FC<OrganizeDialogProps> = ({ item, tags, collections, onChange, onCreateCollection, onClose }) => {
+  const [tagInput, setTagInput] = useState('');
+  const [collectionInput, setCollectionInput] = useState('');
+  const itemTags = item.tags || [];
+  const itemCollections = item.collectionIds || [];
+  const suggestions = tags.filter(tag => !itemTags.includes(tag));
+
+  const addTag = (tag: string) => {
+    const name = tag.trim();
+    if (name && !itemTags.includes(name)) onChange({ tags: [...itemTags, name] });
+    setTagInput('');
+  };
+
+  const toggleCollection = (id: string) => {
+    onChange({
+      collectionIds: itemCollections.includes(id)
+        ? itemCollections.filter(collectionId => collectionId !== id)
+        : [...itemCollections, id],
+    });
+  };
+
+  // A new collection starts with this entry in it
+  const addCollection = () => {
+    const name = collectionInput.trim();
+    if (!name) return;
+    const existing = collections.find(collection => collection.name.toLowerCase() === name.toLowerCase());
+    const collection = existing || onCreateCollection(name);
+    if (!itemCollections.includes(collection.id)) onChange({ collectionIds: [...itemCollections, collection.id] });
+    setCollectionInput('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto rounded-2xl bg-reader-dark border border-white/10 shadow-2xl p-6 text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 mb-6">
+          <h2 className="text-xl font-semibold truncate">{item.title}</h2>
+          <button onClick={onClose} className="size-10 shrink-0 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors" aria-label="Close">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <section className="mb-8">
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-3">Tags</h3>
+          <div className="flex flex-wrap gap-2 mb-3">
+            {itemTags.map(tag => (
+              <span key={tag} className="flex items-center gap-1 pl-3 pr-1 py-0.5 rounded-full bg-primary/30 border border-primary/50 text-sm">
+                {tag}
+                <button
+                  onClick={() => onChange({ tags: itemTags.filter(t => t !== tag) })}
+                  className="size-5 flex items-center justify-center rounded-full hover:bg-white/20"
+                  aria-label={`Remove ${tag}`}
+                >
+                  <span className="material-symbols-outlined text-sm">close</span>
+                </button>
+              </span>
+            ))}
+            {itemTags.length === 0 && <p className="text-xs text-white/40">No tags yet.</p>}
+          </div>
+          <input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' || e.key === ',') {
+                e.preventDefault();
+                addTag(tagInput);
+              }
+            }}
+            placeholder="Add a tag and press Enter"
+            className="w-full h-9 px-3 rounded-lg bg-white/5 border border-white/10 focus:border-primary/60 outline-none text-sm"
+          />
+          {suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-3">
+              {suggestions.map(tag => (
+                <button key={tag} onClick={() => addTag(tag)} className="px-3 py-0.5 rounded-full bg-white/5 border border-white/10 hover:bg-white/10 text-sm text-white/70 transition-colors">
+                  + {tag}
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <h3 className="text-xs font-bold uppercase tracking-wider text-white/50 mb-3">Collections</h3>
+          <div className="flex flex-col gap-1 mb-3">
+            {collections.map(collection => (
+              <label key={collection.id} className="flex items-center gap-3 px-2 py-1.5 rounded-lg hover:bg-white/5 cursor-pointer text-sm">
+                <input
+                  type="checkbox"
+                  checked={itemCollections.includes(collection.id)}
+                  onChange={() => toggleCollection(collection.id)}
+                  className="accent-primary"
+                />
+                {collection.name}
+              </label>
+            ))}
+            {collections.length === 0 && <p className="text-xs text-white/40">No collections yet.</p>}
+          </div>
+          <div className="flex gap-2">
+            <input
+              value={collectionInput}
+              onChange={(e) => setCollectionInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') addCollection(); }}
+              placeholder="New collection"
+              className="flex-1 min-w-0 h-9 px-3 rounded-lg bg-white/5 border border-white/10 focus:border-primary/60 outline-none text-sm"
+            />
+            <button
+              onClick={addCollection}
+              disabled={!collectionInput.trim()}
+              className="px-4 h-9 rounded-lg bg-primary hover:bg-primary/90 text-sm font-medium transition-colors disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReadingDirection } from '../types';
+
+interface PageGridProps {
+  pageCount: number;
+  visiblePages: number[]; // Highlighted, and scrolled into view on open
+  direction: ReadingDirection;
+  loadThumbnail: (index: number) => Promise<Blob>;
+  onSelect: (pageIndex: number) => void;
+  onClose: () => void;
+}
+
+// One cell; its thumbnail is only loaded once it scrolls near the view
+const PageThumbnail: React.FC<{
+  index: number,
+  isVisible: boolean,
+  loadThumbnail: (index: number) => Promise<Blob>,
+  onSelect: (pageIndex: number) => void,
+}> = ({ index, isVisible, loadThumbnail, onSelect }) => {
+  const ref = useRef<HTMLButtonElement>(null);
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    let cancelled = false;
+    let objectUrl: string | undefined;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (!entry.isIntersecting) return;
+      observer.disconnect();
+      loadThumbnail(index)
+        .then(blob => {
+          if (cancelled) return;
+          objectUrl = URL.createObjectURL(blob);
+          setUrl(objectUrl);
+        })
+        .catch(error => console.warn(`[Pages] No thumbnail for page ${index + 1}`, error));
+    }, { rootMargin: '200px' });
+    observer.observe(element);
+
+    return () => {
+      cancelled = true;
+      observer.disconnect();
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [index, loadThumbnail]);
+
+  return (
+    <button
+      ref={ref}
+      onClick={() => onSelect(index)}
+      className="group flex flex-col items-center gap-1.5"
+      title={`Page ${index + 1}`}
+    >
+      <div className={`w-full aspect-[2/3] flex items-center justify-center rounded-lg overflow-hidden bg-white/5 border-2 transition-colors ${isVisible ? 'border-primary' : 'border-transparent group-hover:border-white/40'}`}>
+        {url
+          ? <img src={url} alt={`Page ${index + 1}`} className="h-full w-full object-contain" draggable={false} />
+          : <span className="text-sm text-white/30">{index + 1}</span>}
+      </div>
+      <span className={`text-xs ${isVisible ? 'text-white font-medium' : 'text-white/50'}`}>{index + 1}</span>
+    </button>
+  );
+};
+
+// All pages of the open manga as thumbnails, in reading order
+export const PageGrid: React.FC<PageGridProps> = ({ pageCount, visiblePages, direction, loadThumbnail, onSelect, onClose }) => {
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  // Start at the page being read
+  useEffect(() => {
+    const cell = gridRef.current?.children[visiblePages[0]];
+    cell?.scrollIntoView({ block: 'center' });
+  }, []);
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex flex-col bg-reader-dark/95 backdrop-blur-xl text-white"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+        <h2 className="text-lg font-semibold">Pages</h2>
+        <button onClick={onClose} className="size-10 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors" aria-label="Close pages">
+          <span className="material-symbols-outlined">close</span>
+        </button>
+      </div>
+
+      {/* Right-to-left manga read right to left here too */}
+      <div
+        ref={gridRef}
+        dir={direction}
+        className="flex-1 overflow-y-auto p-6 grid grid-cols-[repeat(auto-fill,minmax(7rem,1fr))] content-start gap-4"
+      >
+        {Array.from({ length: pageCount }, (_, i) => (
+          <PageThumbnail
+            key={i}
+            index={i}
+            isVisible={visiblePages.includes(i)}
+            loadThumbnail={loadThumbnail}
+            onSelect={onSelect}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,179 +1,522 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { MangaItem, OCRCache, SpeechBubble } from '../types';
-import { analyzeMangaPages, blobUrlToBase64, performBatchedOCR } from '../utils/ocr';
+import React, { useState, useEffect, useLayoutEffect, useCallback, useMemo, useRef } from 'react';
+import { Bookmark, BubbleAnnotation, FitMode, ImageQuality, MangaItem, OCRCache, PageAnalysis, PageLayout, PageTarget, PageTranslation, ReaderSettings, SpeechBubble, VisionProvider } from '../types';
+import { buildSpreads } from '../utils/spreads';
+import { computePageTops, pageAtOffset } from '../utils/scrollLayout';
+import { usePanZoom } from '../utils/usePanZoom';
+import { PageCountMismatchError } from '../utils/bubbleValidation';
+import { getCachedAnalysis, putCachedAnalysis } from '../utils/storage';
+import { SchedulerOptions, TaskCancelledError, createScheduler } from '../utils/scheduler';
+import { DEFAULT_TTS_SETTINGS, SpeechLine, assignCharacterVoices, loadVoices, speakLines, unlockSpeech } from '../utils/tts';
+import { MediaSessionController, startMediaSession } from '../utils/mediaSession';
+import { annotationsByBubble } from '../utils/annotations';
+import { buildAnalysisExport, buildAnnotatedCbz, buildTranscript, downloadFile } from '../utils/analysisExport';
+import { createPageCache } from '../utils/pageCache';
+import { VoicePanel } from './VoicePanel';
+import { AnnotationsPanel } from './AnnotationsPanel';
+import { PageGrid } from './PageGrid';
 
 interface ReaderProps {
   manga: MangaItem;
+  initialPage?: number;
+  highlight?: PageTarget; // Bubble to highlight, e.g. when opened from a search hit
+  onPageChange?: (pageIndex: number) => void;
+  visionProvider: VisionProvider;
+  isOffline?: boolean; // Hides features that need a network provider
+  queueOptions: SchedulerOptions;
+  translationLanguage: string;
+  imageQuality: ImageQuality; // How pages are prepared for network providers
+  settings?: ReaderSettings;
+  onSettingsChange?: (settings: ReaderSettings) => void;
+  bookmarks?: Bookmark[];
+  annotations?: BubbleAnnotation[];
+  onAnnotationsChange?: (changes: { bookmarks?: Bookmark[], annotations?: BubbleAnnotation[] }) => void;
+  nextChapterTitle?: string;
+  onNextChapter?: () => void;
   onClose: () => void;
 }
 
 const BATCH_SIZE = 4;
+const CHAPTER_JOB = 'chapter'; // Scheduler group of the whole-chapter job's batches
 
-export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
+// Pages kept loaded around the current one (on top of the pages on screen)
+const PRELOAD_BEHIND = 1;
+const PRELOAD_AHEAD = 3;
+
+// Continuous-scroll mode: column width cap and how far beyond the viewport pages are rendered
+const SCROLL_COLUMN_MAX_WIDTH = 800;
+const SCROLL_OVERSCAN = 1; // In viewport heights, above and below
+
+const LAYOUT_CYCLE: Record<PageLayout, { next: PageLayout, icon: string, label: string }> = {
+  single: { next: 'double', icon: 'description', label: 'Single page' },
+  double: { next: 'scroll', icon: 'menu_book', label: 'Two-page spread' },
+  scroll: { next: 'single', icon: 'view_day', label: 'Continuous scroll' },
+};
+
+const FIT_CYCLE: Record<FitMode, { next: FitMode, icon: string, label: string }> = {
+  screen: { next: 'width', icon: 'fit_screen', label: 'Fit screen' },
+  width: { next: 'height', icon: 'fit_width', label: 'Fit width' },
+  height: { next: 'original', icon: 'height', label: 'Fit height' },
+  original: { next: 'screen', icon: 'aspect_ratio', label: 'Original size' },
+};
+
+type ExportFormat = 'transcript' | 'json' | 'cbz';
+
+const EXPORT_FORMATS: { format: ExportFormat, icon: string, label: string }[] = [
+  { format: 'transcript', icon: 'description', label: 'Transcript (.md)' },
+  { format: 'json', icon: 'data_object', label: 'Analysis (.json)' },
+  { format: 'cbz', icon: 'folder_zip', label: 'Annotated CBZ' },
+];
+
+// Listen mode: how long a page without text stays up before moving on
+const EMPTY_PAGE_DELAY = 1500;
+
+// Delay before a single tap acts, so a double tap can zoom instead
+const DOUBLE_TAP_DELAY = 250;
+
+type Size = { width: number, height: number };
+
+// Page indexes from start (inclusive) to end (exclusive)
+const pageRange = (start: number, end: number) => Array.from({ length: Math.max(end - start, 0) }, (_, i) => start + i);
+
+// Displayed size of a page inside a box for the given fit mode
+const fitPageSize = (natural: Size, box: Size, fitMode: FitMode): Size => {
+  const scale = fitMode === 'width' ? box.width / natural.width
+    : fitMode === 'height' ? box.height / natural.height
+    : fitMode === 'original' ? 1
+    : Math.min(box.width / natural.width, box.height / natural.height);
+  return { width: Math.round(natural.width * scale), height: Math.round(natural.height * scale) };
+};
+
+export const Reader: React.FC<ReaderProps> = ({ manga, initialPage = 0, highlight, onPageChange, visionProvider, isOffline = false, queueOptions, translationLanguage, imageQuality, settings, onSettingsChange, bookmarks = [], annotations = [], onAnnotationsChange, nextChapterTitle, onNextChapter, onClose }) => {
+  // Resume from the last-read page, clamped in case the stored value is out of range
+  const [currentIndex, setCurrentIndex] = useState(() => Math.min(Math.max(initialPage, 0), manga.pageCount - 1));
   const [showControls, setShowControls] = useState(true);
   const [isFullScreen, setIsFullScreen] = useState(false);
+
+  // Layout & Direction (saved per manga). Direction falls back to the archive's ComicInfo.xml.
+  const [readerSettings, setReaderSettings] = useState<Required<ReaderSettings>>(() => ({
+    direction: settings?.direction || manga.readingDirection || 'ltr',
+    layout: settings?.layout || 'single',
+    shiftSpreads: settings?.shiftSpreads ?? true,
+    fitMode: settings?.fitMode || 'screen',
+    tts: { ...DEFAULT_TTS_SETTINGS, ...settings?.tts },
+  }));
+  const { direction, layout, shiftSpreads, fitMode, tts } = readerSettings;
+  const isRTL = direction === 'rtl';
+  // Natural size of each page, filled in as images load (used for spreads, fit modes and scroll layout)
+  const [pageSizes, setPageSizes] = useState<Record<number, Size>>({});
+  const pageAspects = useMemo(() => {
+    const aspects: Record<number, number> = {};
+    (Object.entries(pageSizes) as [string, Size][]).forEach(([index, size]) => { aspects[Number(index)] = size.width / size.height; });
+    return aspects;
+  }, [pageSizes]);
   
   // Analysis State
   const [analysisCache, setAnalysisCache] = useState<OCRCache>({});
+  const analysisCacheRef = useRef(analysisCache);
+  analysisCacheRef.current = analysisCache;
   const [ocrTextCache, setOcrTextCache] = useState<Record<number, string>>({});
+  const ocrTextCacheRef = useRef(ocrTextCache);
+  ocrTextCacheRef.current = ocrTextCache;
   const [debugError, setDebugError] = useState<string | null>(null);
-  const [isAnalysisEnabled, setIsAnalysisEnabled] = useState(false);
-  const processingQueue = useRef<Set<number>>(new Set());
-  const pendingOCRBatches = useRef<Set<number>>(new Set());
-  const preloadedImages = useRef<Record<number, HTMLImageElement>>({});
+  // Overlays are shown straight away when there is a search hit to highlight
+  const [isAnalysisEnabled, setIsAnalysisEnabled] = useState(!!highlight?.bubbleText);
+  // Every vision provider request (single batches, whole-chapter jobs, OCR) goes through this queue.
+  // It lives as long as the reader; limits changed in Settings are pushed into it as they change.
+  const scheduler = useMemo(() => createScheduler(queueOptions), []);
+  useEffect(() => {
+    scheduler.setOptions(queueOptions);
+  }, [scheduler, queueOptions.concurrency, queueOptions.requestsPerMinute, queueOptions.maxRetries, queueOptions.baseDelayMs]);
+  const [chapterJob, setChapterJob] = useState<{ paused: boolean } | null>(null);
+
+  // Translation State: translated bubble texts per page, and which pages show them
+  const [translations, setTranslations] = useState<Record<number, PageTranslation>>({});
+  const translationsRef = useRef(translations);
+  translationsRef.current = translations;
+  const [translatedPages, setTranslatedPages] = useState<Record<number, boolean>>({});
+  // Offline, a network provider can't be asked for anything new; results it saved earlier still show
+  const canUseProvider = !isOffline || !visionProvider.requiresNetwork;
+  const canTranslate = !!visionProvider.translateTexts && canUseProvider;
   
   // TTS State
   const [ttsEnabled, setTtsEnabled] = useState(false);
   const synth = useRef<SpeechSynthesis>(window.speechSynthesis);
   const [activeBubbleIndex, setActiveBubbleIndex] = useState<number | null>(null);
-  const lastSpokenPageIndexRef = useRef<number | null>(null);
+  // What was last read aloud ("page:source"), so the same text isn't repeated when unrelated state changes
+  const lastSpokenKeyRef = useRef<string | null>(null);
+  // Listen mode: read a page, turn it, keep going until the chapter ends
+  const [listenState, setListenState] = useState<'off' | 'playing' | 'paused'>('off');
+  const mediaSession = useRef<MediaSessionController | null>(null);
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [showVoicePanel, setShowVoicePanel] = useState(false);
 
-  // --- Analysis Logic (Batch Queue) ---
+  // Bookmarks & Annotations (saved with the library entry)
+  const [showNotes, setShowNotes] = useState(false);
+  const [showPageGrid, setShowPageGrid] = useState(false);
+  const [notesFocusId, setNotesFocusId] = useState<string | null>(null);
+  // In annotate mode, tapping a bubble highlights it and opens its comment
+  const [isAnnotating, setIsAnnotating] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
 
-  // Preload images for a batch into browser memory only — DO NOT call Gemini here
-  const preloadBatch = useCallback(async (batchIndex: number) => {
-    if (processingQueue.current.has(batchIndex)) return;
+  const updateSettings = (changes: ReaderSettings) => {
+    const next = { ...readerSettings, ...changes };
+    setReaderSettings(next);
+    onSettingsChange?.(next);
+  };
 
-    const startPage = batchIndex * BATCH_SIZE;
-    const endPage = Math.min(startPage + BATCH_SIZE, manga.pages.length);
+  const recordSize = useCallback((index: number, img: HTMLImageElement) => {
+    const { naturalWidth: width, naturalHeight: height } = img;
+    if (!width || !height) return;
+    setPageSizes(prev => prev[index]?.width === width && prev[index]?.height === height ? prev : { ...prev, [index]: { width, height } });
+  }, []);
 
-    // If all pages already have preloaded images, skip
-    let allPreloadedOrDone = true;
-    for (let i = startPage; i < endPage; i++) {
-      if (!preloadedImages.current[i]) {
-        allPreloadedOrDone = false;
-        break;
-      }
-    }
-    if (allPreloadedOrDone) return;
+  // In two-page mode, the groups of pages shown together; null in single-page mode
+  const spreads = useMemo(
+    () => layout === 'double' ? buildSpreads(manga.pageCount, pageAspects, shiftSpreads) : null,
+    [layout, manga.pageCount, pageAspects, shiftSpreads]
+  );
+  const visiblePages = spreads?.find(spread => spread.includes(currentIndex)) || [currentIndex];
+  const lastVisiblePage = visiblePages[visiblePages.length - 1];
 
-    processingQueue.current.add(batchIndex);
+  // Report page turns so reading progress can be saved
+  useEffect(() => {
+    onPageChange?.(lastVisiblePage);
+  }, [lastVisiblePage, onPageChange]);
 
-    // Mark entries as preloading so UI can reflect intent (but not call API)
-    setAnalysisCache(prev => {
-      const nextState = { ...prev };
-      for (let i = startPage; i < endPage; i++) {
-        if (nextState[i]?.status !== 'complete') {
-          nextState[i] = { bubbles: [], status: 'preloaded' };
-        }
-      }
-      return nextState;
+  // --- Continuous Scroll (webtoon) Mode ---
+  // currentIndex is derived from the scroll position so progress, the slider and OCR keep working,
+  // and prefetching stays driven by the page window below.
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollViewport, setScrollViewport] = useState({ top: 0, height: 0, width: 0 });
+  const scrollIndexRef = useRef<number | null>(null); // Page index last derived from scrolling
+  const scrollOffsetRef = useRef(0); // Scroll distance into that page, kept when heights change
+  const columnWidth = Math.min(scrollViewport.width, SCROLL_COLUMN_MAX_WIDTH);
+
+  const scrollLayout = useMemo(
+    () => computePageTops(manga.pageCount, pageAspects, columnWidth),
+    [manga.pageCount, pageAspects, columnWidth]
+  );
+
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (layout !== 'scroll' || !el) return;
+    const measure = () => setScrollViewport({ top: el.scrollTop, height: el.clientHeight, width: el.clientWidth });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [layout]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    setScrollViewport({ top: el.scrollTop, height: el.clientHeight, width: el.clientWidth });
+    const index = pageAtOffset(scrollLayout.tops, el.scrollTop + 1);
+    scrollIndexRef.current = index;
+    scrollOffsetRef.current = el.scrollTop - scrollLayout.tops[index];
+    setCurrentIndex(index);
+  };
+
+  // Keep the scroll position in sync when the page changes from elsewhere (slider, keys)
+  // or when page heights change as images load
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (layout !== 'scroll' || !el || columnWidth === 0) return;
+    const fromScroll = scrollIndexRef.current === currentIndex;
+    if (!fromScroll) scrollOffsetRef.current = 0;
+    el.scrollTop = scrollLayout.tops[currentIndex] + scrollOffsetRef.current;
+    scrollIndexRef.current = currentIndex;
+  }, [layout, currentIndex, scrollLayout, columnWidth]);
+
+  // Only pages near the viewport are mounted
+  const scrollWindow = useMemo(() => {
+    if (layout !== 'scroll') return [];
+    const margin = scrollViewport.height * SCROLL_OVERSCAN;
+    const first = pageAtOffset(scrollLayout.tops, Math.max(scrollViewport.top - margin, 0));
+    const last = pageAtOffset(scrollLayout.tops, scrollViewport.top + scrollViewport.height + margin);
+    const indices: number[] = [];
+    for (let i = first; i <= last; i++) indices.push(i);
+    return indices;
+  }, [layout, scrollLayout, scrollViewport]);
+
+  // --- Zoom, Pan & Fit (paged layouts) ---
+  const panZoom = usePanZoom(layout !== 'scroll');
+  const [pagedViewport, setPagedViewport] = useState<Size>({ width: 0, height: 0 });
+  const clickTimer = useRef<number | undefined>(undefined);
+
+  useEffect(() => {
+    const el = panZoom.viewportRef.current;
+    if (layout === 'scroll' || !el) return;
+    const measure = () => setPagedViewport({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [layout]);
+
+  useEffect(() => () => clearTimeout(clickTimer.current), []);
+
+  // Move one page (or one spread) in reading order
+  const stepPage = useCallback((delta: 1 | -1) => {
+    setCurrentIndex(prev => {
+      if (!spreads) return Math.min(Math.max(prev + delta, 0), manga.pageCount - 1);
+      const spreadIndex = spreads.findIndex(spread => spread.includes(prev));
+      const target = Math.min(Math.max(spreadIndex + delta, 0), spreads.length - 1);
+      return spreads[target][0];
     });
+  }, [spreads, manga.pageCount]);
 
-    try {
-      // Create Image objects and cache them in memory. This is the ONLY background work allowed.
-      const promises: Promise<void>[] = [];
-      for (let i = startPage; i < endPage; i++) {
-        if (!manga.pages[i]) continue;
-        if (preloadedImages.current[i]) continue;
-
-        promises.push(new Promise<void>((resolve) => {
-          const img = new Image();
-          img.crossOrigin = 'anonymous';
-          img.onload = () => {
-            preloadedImages.current[i] = img;
-            resolve();
-          };
-          img.onerror = () => { resolve(); };
-          img.src = manga.pages[i];
-        }));
-      }
+  // --- Page Images ---
+  // Only pages near the reading position have object URLs (see utils/pageCache). The rest are
+  // read from storage on demand, and everything is revoked when the reader closes.
+  const [pageCacheVersion, setPageCacheVersion] = useState(0);
+  const pageCache = useMemo(() => createPageCache(manga.loadPage, () => setPageCacheVersion(v => v + 1)), [manga]);
+  useEffect(() => () => pageCache.clear(), [pageCache]);
 
-      await Promise.all(promises);
-    } catch (err) {
-      console.warn('Preload batch failed', err);
-    } finally {
-      processingQueue.current.delete(batchIndex);
-    }
-  }, [manga.pages]);
+  // The pages on screen plus a few around the current one
+  const visiblePagesKey = visiblePages.join(',');
+  const pageWindow = useMemo(() => {
+    const pages = new Set([...visiblePages, ...scrollWindow]);
+    pageRange(currentIndex - PRELOAD_BEHIND, currentIndex + PRELOAD_AHEAD + 1)
+      .filter(i => i >= 0 && i < manga.pageCount)
+      .forEach(i => pages.add(i));
+    return Array.from(pages);
+  }, [currentIndex, visiblePagesKey, scrollWindow, manga.pageCount]);
+
+  useEffect(() => {
+    pageCache.setWindow(pageWindow);
+  }, [pageCache, pageWindow]);
+
+  // Measure pages as they load, so spreads and the scroll layout are right before they're shown
+  useEffect(() => {
+    pageWindow.forEach(index => {
+      const url = pageCache.get(index);
+      if (!url || pageSizes[index]) return;
+      const img = new Image();
+      img.onload = () => recordSize(index, img);
+      img.src = url;
+    });
+  }, [pageCache, pageCacheVersion, pageWindow]);
+
+  // --- Analysis Logic (Batch Queue) ---
+
+  // Drop anything still queued when the reader closes
+  useEffect(() => () => scheduler.cancel(), [scheduler]);
+
+  // Restore results saved by earlier sessions (or an earlier import of the same pages) for this provider
+  useEffect(() => {
+    const hashes = manga.pageHashes;
+    if (!hashes) return;
+    let cancelled = false;
+
+    Promise.all([
+      getCachedAnalysis<SpeechBubble[]>('bubbles', visionProvider, hashes),
+      getCachedAnalysis<string>('text', visionProvider, hashes),
+    ]).then(([bubbles, texts]) => {
+      if (cancelled) return;
+      setAnalysisCache(prev => {
+        const nextState = { ...prev };
+        bubbles.forEach((pageBubbles, i) => {
+          if (pageBubbles && nextState[i]?.status !== 'complete') nextState[i] = { bubbles: pageBubbles, status: 'complete' };
+        });
+        return nextState;
+      });
+      setOcrTextCache(prev => {
+        const next = { ...prev };
+        texts.forEach((text, i) => {
+          if (text !== undefined && next[i] === undefined) next[i] = text;
+        });
+        return next;
+      });
+    }).catch(err => console.warn('Failed to read analysis cache', err));
 
-  // Explicit analysis function that MUST be triggered by an explicit user action.
-  const analyzeBatch = useCallback(async (batchIndex: number) => {
-    if (processingQueue.current.has(batchIndex)) return;
+    return () => { cancelled = true; };
+  }, [manga.pageHashes, visionProvider]);
+
+  // Explicit analysis function that MUST be triggered by an explicit user action
+  // (the analyze button, a retry, or starting a whole-chapter job).
+  // `priority` jumps the queue, so the page on screen isn't stuck behind a chapter job.
+  // `group` is set by the chapter job, whose batches can be paused without holding back the rest.
+  const analyzeBatch = useCallback(async (batchIndex: number, priority = true, group?: string) => {
+    const taskKey = `analyze:${batchIndex}`;
+    if (scheduler.has(taskKey)) {
+      // Already queued by the chapter job, maybe paused: asked for directly, it runs regardless
+      if (!group) scheduler.claim(taskKey, priority);
+      return;
+    }
 
     const startPage = batchIndex * BATCH_SIZE;
-    const endPage = Math.min(startPage + BATCH_SIZE, manga.pages.length);
+    const endPage = Math.min(startPage + BATCH_SIZE, manga.pageCount);
 
-    processingQueue.current.add(batchIndex);
+    // Nothing to do if every page already has results (e.g. restored from the cache)
+    let allComplete = true;
+    for (let i = startPage; i < endPage; i++) {
+      if (analysisCacheRef.current[i]?.status !== 'complete') {
+        allComplete = false;
+        break;
+      }
+    }
+    if (allComplete || !canUseProvider) return;
 
-    // Set loading state
-    setAnalysisCache(prev => {
+    const setStatus = (status: PageAnalysis['status']) => setAnalysisCache(prev => {
       const nextState = { ...prev };
       for (let i = startPage; i < endPage; i++) {
-        if (nextState[i]?.status !== 'complete') nextState[i] = { bubbles: [], status: 'loading' };
+        if (nextState[i]?.status !== 'complete') nextState[i] = { bubbles: [], status };
       }
       return nextState;
     });
+    setStatus('queued');
 
     try {
-      const imagePromises: Promise<string>[] = [];
-      for (let i = startPage; i < endPage; i++) {
-        imagePromises.push(blobUrlToBase64(manga.pages[i]));
-      }
-      const base64Images = await Promise.all(imagePromises);
-
-      // THIS is the only place that calls the Gemini API (analyzeMangaPages)
-      const batchResults = await analyzeMangaPages(base64Images);
+      // THIS is the only place that runs bubble analysis (Gemini, Tesseract... per settings)
+      const batchResults = await scheduler.run(taskKey, () => {
+        setStatus('loading');
+        return pageCache.withPages(pageRange(startPage, endPage), urls => visionProvider.analyzePages(urls, imageQuality));
+      }, priority, group);
+      batchResults.forEach(bubbles => bubbles.sort((a, b) => {
+        const yDiff = a.box_2d[0] - b.box_2d[0];
+        if (Math.abs(yDiff) > 50) return yDiff;
+        return b.box_2d[1] - a.box_2d[1];
+      }));
 
       setAnalysisCache(prev => {
         const nextState = { ...prev };
         batchResults.forEach((bubbles, relativeIndex) => {
-          const absoluteIndex = startPage + relativeIndex;
-          bubbles.sort((a, b) => {
-            const yDiff = a.box_2d[0] - b.box_2d[0];
-            if (Math.abs(yDiff) > 50) return yDiff;
-            return b.box_2d[1] - a.box_2d[1];
-          });
-          nextState[absoluteIndex] = { bubbles, status: 'complete' };
+          nextState[startPage + relativeIndex] = { bubbles, status: 'complete' };
         });
         return nextState;
       });
+
+      if (manga.pageHashes) {
+        const entries = batchResults.map((bubbles, relativeIndex) => ({ hash: manga.pageHashes![startPage + relativeIndex], value: bubbles }));
+        putCachedAnalysis('bubbles', visionProvider, entries).catch(err => console.warn('Failed to cache analysis', err));
+      }
     } catch (err) {
+      if (err instanceof TaskCancelledError) {
+        // Never sent: forget the queued state rather than reporting an error
+        setAnalysisCache(prev => {
+          const nextState = { ...prev };
+          for (let i = startPage; i < endPage; i++) {
+            if (nextState[i]?.status === 'queued') delete nextState[i];
+          }
+          return nextState;
+        });
+        return;
+      }
       console.error('Batch analysis failed', err);
+      const error = err instanceof PageCountMismatchError
+        ? `The model returned ${err.received} pages instead of ${err.expected}`
+        : err instanceof Error ? err.message : String(err);
+      // Pages that already have results (from the cache or another request) keep them
       setAnalysisCache(prev => {
         const nextState = { ...prev };
         for (let i = startPage; i < endPage; i++) {
-          nextState[i] = { bubbles: [], status: 'error' };
+          if (nextState[i]?.status !== 'complete') nextState[i] = { bubbles: [], status: 'error', error };
         }
         return nextState;
       });
-    } finally {
-      processingQueue.current.delete(batchIndex);
     }
-  }, [manga.pages]);
+  }, [manga.pageCount, manga.pageHashes, pageCache, visionProvider, imageQuality, canUseProvider, scheduler]);
 
-  // Trigger Strategy
-  useEffect(() => {
-    // Always preload current and next batch images into memory — but do NOT call the API.
-    const currentBatch = Math.floor(currentIndex / BATCH_SIZE);
-    preloadBatch(currentBatch);
-
-    const nextBatch = currentBatch + 1;
-    if (nextBatch * BATCH_SIZE < manga.pages.length) {
-      const timer = setTimeout(() => {
-        preloadBatch(nextBatch);
-      }, 500);
-      return () => clearTimeout(timer);
+  // --- Whole-chapter analysis job ---
+  // Queues every batch, starting from the one on screen, at normal priority.
+  // Progress and per-page status are read straight from analysisCache.
+  const analyzeChapter = () => {
+    setIsAnalysisEnabled(true);
+    setChapterJob({ paused: false });
+    scheduler.resume(CHAPTER_JOB);
+    const batchCount = Math.ceil(manga.pageCount / BATCH_SIZE);
+    const firstBatch = Math.floor(currentIndex / BATCH_SIZE);
+    for (let i = 0; i < batchCount; i++) {
+      analyzeBatch((firstBatch + i) % batchCount, false, CHAPTER_JOB);
+    }
+  };
+
+  const toggleChapterJobPaused = () => {
+    if (!chapterJob) return;
+    if (chapterJob.paused) scheduler.resume(CHAPTER_JOB);
+    else scheduler.pause(CHAPTER_JOB);
+    setChapterJob({ paused: !chapterJob.paused });
+  };
+
+  const cancelChapterJob = () => {
+    scheduler.cancel((_, group) => group === CHAPTER_JOB);
+    scheduler.resume(CHAPTER_JOB);
+    setChapterJob(null);
+  };
+
+  const chapterProgress = useMemo(() => {
+    const counts = { complete: 0, error: 0, active: 0 };
+    for (let i = 0; i < manga.pageCount; i++) {
+      const status = analysisCache[i]?.status;
+      if (status === 'complete') counts.complete++;
+      else if (status === 'error') counts.error++;
+      else if (status === 'queued' || status === 'loading') counts.active++;
+    }
+    return counts;
+  }, [analysisCache, manga.pageCount]);
+
+  // --- Translation ---
+  const translatePage = useCallback(async (pageIndex: number) => {
+    const analysis = analysisCacheRef.current[pageIndex];
+    const translate = visionProvider.translateTexts;
+    if (!translate || analysis?.status !== 'complete') return;
+    const existing = translationsRef.current[pageIndex];
+    if (existing && existing.status !== 'error') return;
+
+    const setTranslation = (translation: PageTranslation) => setTranslations(prev => ({ ...prev, [pageIndex]: translation }));
+    setTranslation({ texts: [], status: 'loading' });
+
+    const kind = `translation:${translationLanguage}` as const;
+    const hash = manga.pageHashes?.[pageIndex];
+    const sourceTexts = analysis.bubbles.map(bubble => bubble.text);
+    try {
+      let texts = hash ? (await getCachedAnalysis<string[]>(kind, visionProvider, [hash]))[0] : undefined;
+      if (!texts || texts.length !== sourceTexts.length) {
+        texts = await scheduler.run(`translate:${translationLanguage}:${pageIndex}`, () => translate(sourceTexts, translationLanguage), true);
+        if (hash) putCachedAnalysis(kind, visionProvider, [{ hash, value: texts }]).catch(err => console.warn('Failed to cache translation', err));
+      }
+      setTranslation({ texts, status: 'complete' });
+    } catch (err) {
+      if (err instanceof TaskCancelledError) {
+        setTranslations(prev => {
+          const next = { ...prev };
+          delete next[pageIndex];
+          return next;
+        });
+        return;
+      }
+      console.error('Translation failed', err);
+      setTranslation({ texts: [], status: 'error', error: err instanceof Error ? err.message : String(err) });
     }
-  }, [currentIndex, preloadBatch, manga.pages.length]);
+  }, [visionProvider, translationLanguage, manga.pageHashes, scheduler]);
 
-  // --- Background Preloading of next pages (n+1, n+2, n+3) ---
+  // Translate pages switched to translated mode as soon as their bubbles are available
   useEffect(() => {
-    const preload = (idx: number) => {
-      if (!manga.pages[idx]) return;
-      if (preloadedImages.current[idx]) return;
-      const img = new Image();
-      img.crossOrigin = 'anonymous';
-      img.src = manga.pages[idx];
-      img.onload = () => { preloadedImages.current[idx] = img; };
-      img.onerror = () => { /* ignore */ };
-    };
+    Object.keys(translatedPages).forEach(key => {
+      const pageIndex = Number(key);
+      if (translatedPages[pageIndex] && analysisCache[pageIndex]?.status === 'complete' && !translations[pageIndex]) {
+        translatePage(pageIndex);
+      }
+    });
+  }, [translatedPages, analysisCache, translations, translatePage]);
 
-    for (let i = 1; i <= 3; i++) {
-      preload(currentIndex + i);
+  // Toggles original/translated text for the pages on screen
+  const toggleTranslation = () => {
+    const show = !visiblePages.every(pageIndex => translatedPages[pageIndex]);
+    if (show) {
+      // Retry pages that failed last time
+      visiblePages.forEach(pageIndex => {
+        if (translations[pageIndex]?.status === 'error') translatePage(pageIndex);
+      });
     }
-  }, [currentIndex, manga.pages]);
+    setTranslatedPages(prev => {
+      const next = { ...prev };
+      visiblePages.forEach(pageIndex => { next[pageIndex] = show; });
+      return next;
+    });
+  };
 
   // --- Batched OCR (per-page text) ---
   const requestOCRForPage = useCallback(async (index: number) => {
@@ -182,10 +525,10 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
       
       // Check if all pages in this batch are already cached
       const batchStart = index;
-      const batchEnd = Math.min(batchStart + 3, manga.pages.length);
+      const batchEnd = Math.min(batchStart + 3, manga.pageCount);
       let allCached = true;
       for (let i = batchStart; i < batchEnd; i++) {
-        if (!ocrTextCache[i]) {
+        if (!ocrTextCacheRef.current[i]) {
           allCached = false;
           break;
         }
@@ -195,32 +538,28 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
         return;
       }
 
-      // ===== AUDIO UNLOCK TRICK FOR MOBILE =====
-      // Immediately after user interaction (button click), unlock the speech engine
-      // with a silent utterance. This bypasses mobile autoplay restrictions.
-      const unlockMsg = new SpeechSynthesisUtterance('');
-      unlockMsg.volume = 0;
-      window.speechSynthesis.speak(unlockMsg);
-      // ==========================================
+      // Immediately after user interaction (button click), unlock the speech engine.
+      // This bypasses mobile autoplay restrictions.
+      unlockSpeech();
 
       // Prevent duplicate batch requests
-      if (pendingOCRBatches.current.has(batchStart)) {
+      const taskKey = `ocr:${batchStart}`;
+      if (scheduler.has(taskKey)) {
         console.log(`[OCR] Batch starting at page ${batchStart} already pending`);
         return;
       }
-      pendingOCRBatches.current.add(batchStart);
       console.log(`[OCR] Starting batch from page ${batchStart}`);
 
       // Grab next 3 pages starting from currentIndex
-      const urls = manga.pages.slice(batchStart, batchStart + 3);
+      const indices = pageRange(batchStart, batchEnd);
       
-      if (urls.length === 0) {
+      if (indices.length === 0) {
         console.log(`[OCR] No pages to process`);
         return;
       }
 
-      console.log(`[OCR] Requesting ${urls.length} pages (indices ${batchStart}-${batchStart + urls.length - 1})`);
-      const texts = await performBatchedOCR(urls);
+      console.log(`[OCR] Requesting ${indices.length} pages (indices ${batchStart}-${batchEnd - 1})`);
+      const texts = await scheduler.run(taskKey, () => pageCache.withPages(indices, urls => visionProvider.extractPageText(urls, imageQuality)), true);
       
       // Map texts to absolute page indexes
       setOcrTextCache(prev => {
@@ -232,117 +571,122 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
         });
         return next;
       });
+
+      if (manga.pageHashes) {
+        const entries = texts.map((text, i) => ({ hash: manga.pageHashes![batchStart + i], value: text || '' }));
+        putCachedAnalysis('text', visionProvider, entries).catch(err => console.warn('Failed to cache OCR text', err));
+      }
     } catch (err) {
+      if (err instanceof TaskCancelledError) return;
       const errorMsg = err instanceof Error ? err.message : String(err);
       console.error('OCR request failed', err);
       setDebugError(errorMsg);
-    } finally {
-      pendingOCRBatches.current.delete(index);
     }
-  }, [manga.pages]);
+  }, [manga.pageCount, manga.pageHashes, pageCache, visionProvider, imageQuality, scheduler]);
 
   // --- TTS Logic ---
 
   // Audio unlock effect: triggered when TTS is enabled
   useEffect(() => {
     if (!ttsEnabled) return;
-
-    // Unlock speech engine with silent utterance
-    const unlockMsg = new SpeechSynthesisUtterance('');
-    unlockMsg.volume = 0;
-    window.speechSynthesis.speak(unlockMsg);
-    
+    unlockSpeech();
     console.log('[TTS] Audio unlocked on enable');
   }, [ttsEnabled]);
 
+  useEffect(() => {
+    let cancelled = false;
+    const refresh = () => loadVoices().then(list => { if (!cancelled) setVoices(list); });
+    refresh();
+    window.speechSynthesis.addEventListener('voiceschanged', refresh);
+    return () => {
+      cancelled = true;
+      window.speechSynthesis.removeEventListener('voiceschanged', refresh);
+    };
+  }, []);
+
+  // Speakers in order of first appearance across the analyzed pages
+  const characters = useMemo(() => {
+    const seen = new Set<string>();
+    for (let i = 0; i < manga.pageCount; i++) {
+      analysisCache[i]?.bubbles.forEach(bubble => { if (bubble.speaker) seen.add(bubble.speaker); });
+    }
+    return Array.from(seen);
+  }, [analysisCache, manga.pageCount]);
+
+  // Give newly found characters their own voice, and save it so they keep it next time
+  useEffect(() => {
+    if (!tts.speakerVoices) return;
+    const characterVoices = assignCharacterVoices(characters, voices, tts);
+    if (characterVoices) updateSettings({ tts: { ...tts, characterVoices } });
+  }, [characters, voices, tts]);
+
   // Separate effect to handle Page Turn or Disable
   useEffect(() => {
     if (!ttsEnabled || !isAnalysisEnabled) {
       synth.current.cancel();
       setActiveBubbleIndex(null);
-      lastSpokenPageIndexRef.current = null;
+      lastSpokenKeyRef.current = null;
     }
   }, [ttsEnabled, isAnalysisEnabled]);
 
-  // Effect to queue speech when data becomes available
-  const speakCurrentPage = useCallback(async () => {
-    if (!ttsEnabled || !isAnalysisEnabled) return;
-
+  // What to read for the current page: the translation when the page shows one,
+  // else the OCR text, else the bubbles. The key changes whenever the source does.
+  const currentSpeech = useMemo(() => {
     const pageIndex = currentIndex;
-    try {
-      const cachedText = ocrTextCache[pageIndex];
-      if (cachedText && cachedText.trim().length > 0) {
-        if (lastSpokenPageIndexRef.current === pageIndex && synth.current.speaking) return;
-        if (lastSpokenPageIndexRef.current !== pageIndex) {
-          synth.current.cancel();
-          setActiveBubbleIndex(null);
-        }
-        lastSpokenPageIndexRef.current = pageIndex;
-        window.speechSynthesis.cancel();
-        const utterance = new SpeechSynthesisUtterance(cachedText);
-
-        let voices = window.speechSynthesis.getVoices();
-        if (voices.length === 0) {
-          await new Promise(resolve => {
-            const handleVoices = () => { voices = window.speechSynthesis.getVoices(); window.speechSynthesis.removeEventListener('voiceschanged', handleVoices); resolve(null); };
-            window.speechSynthesis.addEventListener('voiceschanged', handleVoices);
-            setTimeout(resolve, 1000);
-          });
-        }
-        const voice = voices.find(v => v.name.includes('Google US English')) || voices.find(v => v.lang.startsWith('en'));
-        if (voice) utterance.voice = voice;
-        utterance.rate = 1.0; utterance.pitch = 1.0; utterance.volume = 1;
-        utterance.onstart = () => setActiveBubbleIndex(null);
-        utterance.onend = () => setActiveBubbleIndex(null);
-        utterance.onerror = (e) => setDebugError(`TTS Error: ${e instanceof Error ? e.message : String(e)}`);
-        synth.current.speak(utterance);
-        return;
-      }
-    } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : String(err);
-      console.error('[TTS] OCR text error:', errorMsg);
-      setDebugError(`TTS OCR text error: ${errorMsg}`);
-      return;
+    const pageData = analysisCache[pageIndex];
+    const translation = translatedPages[pageIndex] ? translations[pageIndex] : undefined;
+    const ocrText = ocrTextCache[pageIndex];
+
+    if (pageData?.status === 'complete' && translation?.status === 'complete') {
+      const lines: SpeechLine[] = pageData.bubbles.map((bubble, i) => ({ text: translation.texts[i] ?? bubble.text, speaker: bubble.speaker, bubbleIndex: i }));
+      return { key: `${pageIndex}:translation`, lines };
     }
+    if (ocrText && ocrText.trim().length > 0) {
+      return { key: `${pageIndex}:ocr`, lines: [{ text: ocrText, bubbleIndex: null }] as SpeechLine[] };
+    }
+    if (pageData?.status === 'complete') {
+      const lines: SpeechLine[] = pageData.bubbles.map((bubble, i) => ({ text: bubble.text, speaker: bubble.speaker, bubbleIndex: i }));
+      return { key: `${pageIndex}:bubbles`, lines };
+    }
+    return { key: `${pageIndex}:none`, lines: [] as SpeechLine[] };
+  }, [currentIndex, analysisCache, ocrTextCache, translatedPages, translations]);
+
+  // Called when the current page has been read to the end (or has nothing to read).
+  // The other page of a spread is read next, then it turns like the on-screen controls do.
+  const onPageSpokenRef = useRef<() => void>(() => {});
+  onPageSpokenRef.current = () => {
+    if (listenState !== 'playing') return;
+    if (currentIndex < lastVisiblePage) {
+      setCurrentIndex(currentIndex + 1);
+    } else if (lastVisiblePage >= manga.pageCount - 1) {
+      stopListening();
+    } else {
+      stepPage(1);
+    }
+  };
+
+  // Effect to queue speech when data becomes available
+  const speakCurrentPage = useCallback(() => {
+    if (!ttsEnabled || !isAnalysisEnabled || listenState === 'paused') return;
+    const { key, lines } = currentSpeech;
+    if (lines.length === 0) return;
+
+    if (lastSpokenKeyRef.current === key) return;
+    lastSpokenKeyRef.current = key;
+    synth.current.cancel();
+    setActiveBubbleIndex(null);
 
-    // Fallback to bubble-based TTS
     try {
-      const currentPageData = analysisCache[pageIndex];
-      if (!currentPageData || currentPageData.status !== 'complete') return;
-      if (currentPageData.bubbles.length === 0) return;
-      if (lastSpokenPageIndexRef.current === pageIndex && synth.current.speaking) return;
-      if (lastSpokenPageIndexRef.current !== pageIndex) {
-        synth.current.cancel();
+      speakLines(lines, voices, tts, line => setActiveBubbleIndex(line.bubbleIndex), (completed) => {
         setActiveBubbleIndex(null);
-      }
-      lastSpokenPageIndexRef.current = pageIndex;
-      window.speechSynthesis.cancel();
-
-      let voices = window.speechSynthesis.getVoices();
-      if (voices.length === 0) {
-        await new Promise(resolve => {
-          const handleVoices = () => { voices = window.speechSynthesis.getVoices(); window.speechSynthesis.removeEventListener('voiceschanged', handleVoices); resolve(null); };
-          window.speechSynthesis.addEventListener('voiceschanged', handleVoices);
-          setTimeout(resolve, 1000);
-        });
-      }
-
-      currentPageData.bubbles.forEach((bubble, i) => {
-        const utterance = new SpeechSynthesisUtterance(bubble.text);
-        const voice = voices.find(v => v.name.includes('Google US English')) || voices.find(v => v.lang.startsWith('en'));
-        if (voice) utterance.voice = voice;
-        utterance.rate = 1.0; utterance.pitch = 1.0; utterance.volume = 1;
-        utterance.onstart = () => setActiveBubbleIndex(i);
-        utterance.onend = () => { if (i === currentPageData.bubbles.length - 1) setActiveBubbleIndex(null); };
-        utterance.onerror = () => { if (i === currentPageData.bubbles.length - 1) setActiveBubbleIndex(null); };
-        synth.current.speak(utterance);
+        if (completed) onPageSpokenRef.current();
       });
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : String(err);
-      console.error('[TTS] Bubbles error:', errorMsg);
-      setDebugError(`TTS Bubbles error: ${errorMsg}`);
+      console.error('[TTS] Error:', errorMsg);
+      setDebugError(`TTS error: ${errorMsg}`);
     }
-  }, [currentIndex, ttsEnabled, isAnalysisEnabled, analysisCache, ocrTextCache]);
+  }, [ttsEnabled, isAnalysisEnabled, listenState, currentSpeech, voices, tts]);
 
   useEffect(() => {
     // call speakCurrentPage whenever dependencies change
@@ -356,15 +700,157 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
     };
   }, []);
 
+  // --- Listen Mode ---
+
+  const startListening = () => {
+    unlockSpeech();
+    setIsAnalysisEnabled(true);
+    setTtsEnabled(true);
+    setListenState('playing');
+    lastSpokenKeyRef.current = null;
+    mediaSession.current?.stop();
+    mediaSession.current = startMediaSession(mediaSessionInfo(), {
+      play: () => mediaHandlers.current.play(),
+      pause: () => mediaHandlers.current.pause(),
+      next: () => mediaHandlers.current.next(),
+      previous: () => mediaHandlers.current.previous(),
+      stop: () => mediaHandlers.current.stop(),
+    });
+  };
+
+  const pauseListening = () => {
+    synth.current.cancel();
+    lastSpokenKeyRef.current = null; // Resuming starts the page over
+    setListenState('paused');
+    mediaSession.current?.setPaused(true);
+  };
+
+  const resumeListening = () => {
+    setListenState('playing');
+    mediaSession.current?.setPaused(false);
+  };
+
+  const stopListening = () => {
+    synth.current.cancel();
+    setListenState('off');
+    mediaSession.current?.stop();
+    mediaSession.current = null;
+  };
+
+  const mediaSessionInfo = () => ({
+    title: `Page ${currentIndex + 1} of ${manga.pageCount}`,
+    artist: manga.series || manga.writer,
+    album: manga.title,
+    artworkUrl: manga.coverUrl,
+  });
+
+  // Lock screen controls call whatever the latest handlers are
+  const mediaHandlers = useRef({ play: () => {}, pause: () => {}, next: () => {}, previous: () => {}, stop: () => {} });
+  mediaHandlers.current = {
+    play: resumeListening,
+    pause: pauseListening,
+    next: () => stepPage(1),
+    previous: () => stepPage(-1),
+    stop: stopListening,
+  };
+
+  useEffect(() => {
+    mediaSession.current?.update(mediaSessionInfo());
+  }, [currentIndex]);
+
+  useEffect(() => () => mediaSession.current?.stop(), []);
+
+  // Keep analysis ahead of the reader: the batch being read now and the next one
+  useEffect(() => {
+    if (listenState !== 'playing') return;
+    const batch = Math.floor(currentIndex / BATCH_SIZE);
+    analyzeBatch(batch);
+    if ((batch + 1) * BATCH_SIZE < manga.pageCount) analyzeBatch(batch + 1, false);
+  }, [listenState, currentIndex, analyzeBatch, manga.pageCount]);
+
+  // Pages with nothing to read (or whose analysis failed) are shown briefly, then skipped
+  const currentStatus = analysisCache[currentIndex]?.status;
+  useEffect(() => {
+    if (listenState !== 'playing' || currentSpeech.lines.length > 0) return;
+    if (currentStatus !== 'complete' && currentStatus !== 'error') return;
+    const timer = setTimeout(() => onPageSpokenRef.current(), EMPTY_PAGE_DELAY);
+    return () => clearTimeout(timer);
+  }, [listenState, currentSpeech, currentStatus]);
+
+  // --- Bookmarks, Annotations & Export ---
+
+  const openNotes = (focusId: string | null = null) => {
+    setNotesFocusId(focusId);
+    setShowNotes(true);
+  };
+
+  const isBookmarked = visiblePages.some(pageIndex => bookmarks.some(bookmark => bookmark.pageIndex === pageIndex));
+
+  // Removes the bookmarks of the pages on screen, or bookmarks the current page and opens its note
+  const toggleBookmark = () => {
+    if (isBookmarked) {
+      onAnnotationsChange?.({ bookmarks: bookmarks.filter(bookmark => !visiblePages.includes(bookmark.pageIndex)) });
+      return;
+    }
+    const bookmark: Bookmark = { id: crypto.randomUUID(), pageIndex: currentIndex, note: '', createdAt: Date.now() };
+    onAnnotationsChange?.({ bookmarks: [...bookmarks, bookmark] });
+    openNotes(bookmark.id);
+  };
+
+  const annotateBubble = (pageIndex: number, bubbleIndex: number) => {
+    const bubbles = analysisCache[pageIndex]?.bubbles || [];
+    const existing = annotationsByBubble(bubbles, annotations, pageIndex)[bubbleIndex];
+    if (existing) {
+      openNotes(existing.id);
+      return;
+    }
+    const { text, box_2d } = bubbles[bubbleIndex];
+    const annotation: BubbleAnnotation = { id: crypto.randomUUID(), pageIndex, bubbleText: text, box_2d, comment: '', createdAt: Date.now() };
+    onAnnotationsChange?.({ annotations: [...annotations, annotation] });
+    openNotes(annotation.id);
+  };
+
+  // Exports whatever has been analyzed so far; pages without results are marked as such
+  const exportAnalysis = async (format: ExportFormat) => {
+    setShowExportMenu(false);
+    const data = buildAnalysisExport(manga, visionProvider.id, analysisCache, ocrTextCache, bookmarks, annotations);
+    const baseName = manga.title.replace(/[\\/:*?"<>|]/g, '_');
+    try {
+      setIsExporting(true);
+      if (format === 'transcript') {
+        downloadFile(new Blob([buildTranscript(data)], { type: 'text/markdown' }), `${baseName}.md`);
+      } else if (format === 'json') {
+        downloadFile(new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' }), `${baseName}.json`);
+      } else {
+        downloadFile(await buildAnnotatedCbz(manga, data), `${baseName} (annotated).cbz`);
+      }
+    } catch (err) {
+      console.error('Export failed', err);
+      alert(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // --- Navigation & UI ---
 
   // Keyboard navigation
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.key === 'ArrowRight' || e.key === ' ') {
-        setCurrentIndex((prev) => Math.min(prev + 1, manga.pages.length - 1));
-      } else if (e.key === 'ArrowLeft') {
-        setCurrentIndex((prev) => Math.max(prev - 1, 0));
+      // Typing a note shouldn't turn pages
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
+      // The page grid is closed with Escape and doesn't turn pages behind it
+      if (showPageGrid) {
+        if (e.key === 'Escape') setShowPageGrid(false);
+        return;
+      }
+      // In right-to-left mode the arrow keys are mirrored; Space always moves forward
+      const forwardKey = direction === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+      const backwardKey = direction === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+      if (e.key === forwardKey || e.key === ' ') {
+        stepPage(1);
+      } else if (e.key === backwardKey) {
+        stepPage(-1);
       } else if (e.key === 'Escape') {
         if (document.fullscreenElement) {
            document.exitFullscreen();
@@ -375,7 +861,7 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
     };
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [manga.pages.length, onClose]);
+  }, [stepPage, onClose, direction, showPageGrid]);
 
   const toggleFullScreen = () => {
     if (!document.fullscreenElement) {
@@ -387,12 +873,65 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
     }
   };
 
-  const handleNext = () => setCurrentIndex((prev) => Math.min(prev + 1, manga.pages.length - 1));
-  const handlePrev = () => setCurrentIndex((prev) => Math.max(prev - 1, 0));
+  const handleNext = () => stepPage(1);
+  const handlePrev = () => stepPage(-1);
   const toggleControls = () => setShowControls(!showControls);
 
+  // Screen-side navigation: the left side moves forward when reading right-to-left
+  const handleLeft = isRTL ? handleNext : handlePrev;
+  const handleRight = isRTL ? handlePrev : handleNext;
+  const isFirst = visiblePages[0] === 0;
+  const isLast = lastVisiblePage === manga.pageCount - 1;
+
+  // Tap zones: outer thirds turn the page, the middle toggles the controls. Double tap zooms.
+  const handlePageClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (layout === 'scroll') {
+      toggleControls();
+      return;
+    }
+    if (panZoom.consumeDrag()) return;
+
+    clearTimeout(clickTimer.current);
+    if (e.detail >= 2) {
+      panZoom.toggleZoom(e.clientX, e.clientY);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = (e.clientX - rect.left) / rect.width;
+    clickTimer.current = window.setTimeout(() => {
+      if (x < 0.3) handleLeft();
+      else if (x > 0.7) handleRight();
+      else toggleControls();
+    }, DOUBLE_TAP_DELAY);
+  };
+
+  // Pages in on-screen order (right-to-left spreads show the later page on the left)
+  const displayedPages = isRTL ? [...visiblePages].reverse() : visiblePages;
+
+  // Each displayed page gets an equal share of the viewport width
+  const pageBox = { width: pagedViewport.width / displayedPages.length, height: pagedViewport.height };
+  const pagedSizeKey = displayedPages.map(i => pageSizes[i] ? `${pageSizes[i].width}x${pageSizes[i].height}` : '?').join(',');
+
+  // New page, fit mode or window size: drop the zoom and show the start of the page
+  // (top edge, and the right edge when reading right-to-left)
+  useLayoutEffect(() => {
+    if (layout === 'scroll') return;
+    panZoom.reset(isRTL ? 'end' : 'start', 'start');
+  }, [layout, visiblePages[0], fitMode, pagedSizeKey, pagedViewport.width, pagedViewport.height, isRTL]);
+
   const currentAnalysis = analysisCache[currentIndex];
   const isLoading = currentAnalysis?.status === 'loading';
+  const highlightedBubble = highlight?.bubbleText
+    ? analysisCache[highlight.pageIndex]?.bubbles.findIndex(bubble => bubble.text === highlight.bubbleText) ?? -1
+    : -1;
+  // A hit from another provider's analysis isn't among this one's bubbles; outline where it was found instead
+  const highlightBox = highlight?.box_2d && highlightedBubble < 0 ? highlight.box_2d : undefined;
+  const analysisError = currentAnalysis?.status === 'error' ? currentAnalysis.error || 'Analysis failed' : null;
+  const isShowingTranslation = visiblePages.every(pageIndex => translatedPages[pageIndex]);
+  const isTranslating = isShowingTranslation && visiblePages.some(pageIndex => translations[pageIndex]?.status === 'loading');
+  const translationError = isShowingTranslation
+    ? visiblePages.map(pageIndex => translations[pageIndex]?.error).find(Boolean)
+    : undefined;
 
   return (
     <div className="relative h-screen w-full flex items-center justify-center bg-black overflow-hidden select-none font-sans">
@@ -408,26 +947,70 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
       )}
       
       {/* Container for Image + Overlays */}
+      {layout === 'scroll' ? (
+        <div
+          ref={scrollRef}
+          onScroll={handleScroll}
+          onClick={handlePageClick}
+          className="h-full w-full overflow-y-auto"
+        >
+          <div className="relative mx-auto" style={{ width: columnWidth, height: scrollLayout.totalHeight }}>
+            {scrollWindow.map(pageIndex => (
+              <div
+                key={pageIndex}
+                className="absolute left-0 w-full"
+                style={{ top: scrollLayout.tops[pageIndex], height: scrollLayout.heights[pageIndex] }}
+              >
+                <PageView
+                  src={pageCache.get(pageIndex)}
+                  pageIndex={pageIndex}
+                  size={{ width: columnWidth, height: scrollLayout.heights[pageIndex] }}
+                  analysis={isAnalysisEnabled ? analysisCache[pageIndex] : undefined}
+                  translation={isAnalysisEnabled && translatedPages[pageIndex] ? translations[pageIndex] : undefined}
+                  activeBubbleIndex={pageIndex === currentIndex ? activeBubbleIndex : null}
+                  highlightedBubbleIndex={pageIndex === highlight?.pageIndex && highlightedBubble >= 0 ? highlightedBubble : null}
+                  highlightBox={pageIndex === highlight?.pageIndex ? highlightBox : undefined}
+                  annotations={annotations}
+                  onBubbleClick={isAnnotating ? annotateBubble : undefined}
+                  onLoad={recordSize}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
       <div 
-        className="relative h-full w-full max-w-5xl flex items-center justify-center"
-        onClick={toggleControls}
+        ref={panZoom.viewportRef}
+        className="relative h-full w-full flex items-center justify-center overflow-hidden touch-none"
+        onClick={handlePageClick}
+        {...panZoom.handlers}
       >
-        <img 
-            src={manga.pages[currentIndex]} 
-            className="max-h-full max-w-full object-contain shadow-2xl"
-            alt={`Page ${currentIndex + 1}`}
-        />
-
-        {/* Bounding Box Overlays */}
-        {isAnalysisEnabled && currentAnalysis?.status === 'complete' && (
-            <div className="absolute inset-0 pointer-events-none flex items-center justify-center">
-                <OverlayLayer 
-                    bubbles={currentAnalysis.bubbles} 
-                    activeBubbleIndex={activeBubbleIndex}
-                />
-            </div>
-        )}
+        {/* Zoom/pan is applied here so images and bubble overlays move together */}
+        <div
+          ref={panZoom.contentRef}
+          className="flex items-center shrink-0"
+          style={{ transform: panZoom.transform }}
+        >
+          {displayedPages.map(pageIndex => (
+            <PageView
+              key={pageIndex}
+              src={pageCache.get(pageIndex)}
+              pageIndex={pageIndex}
+              size={pageSizes[pageIndex] && fitPageSize(pageSizes[pageIndex], pageBox, fitMode)}
+              maxSize={pageBox}
+              analysis={isAnalysisEnabled ? analysisCache[pageIndex] : undefined}
+              translation={isAnalysisEnabled && translatedPages[pageIndex] ? translations[pageIndex] : undefined}
+              activeBubbleIndex={pageIndex === currentIndex ? activeBubbleIndex : null}
+              highlightedBubbleIndex={pageIndex === highlight?.pageIndex && highlightedBubble >= 0 ? highlightedBubble : null}
+              highlightBox={pageIndex === highlight?.pageIndex ? highlightBox : undefined}
+              annotations={annotations}
+              onBubbleClick={isAnnotating ? annotateBubble : undefined}
+              onLoad={recordSize}
+            />
+          ))}
+        </div>
       </div>
+      )}
 
       {/* Loading Indicator */}
       {isAnalysisEnabled && isLoading && (
@@ -439,8 +1022,56 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
         </div>
       )}
 
+      {/* Per-page analysis error */}
+      {isAnalysisEnabled && analysisError && canUseProvider && (
+        <div className="absolute top-24 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 max-w-[90vw] bg-red-950/80 backdrop-blur-md border border-red-500/30 pl-4 pr-2 py-2 rounded-full text-white text-sm">
+            <span className="material-symbols-outlined text-red-400 text-xl">error</span>
+            <span className="truncate">{analysisError}</span>
+            <button
+              onClick={(e) => { e.stopPropagation(); analyzeBatch(Math.floor(currentIndex / BATCH_SIZE)); }}
+              className="shrink-0 px-3 py-1 rounded-full bg-white/10 hover:bg-white/20 text-xs font-bold uppercase tracking-wider transition-colors"
+            >
+                Retry
+            </button>
+        </div>
+      )}
+
+      {showVoicePanel && (
+        <VoicePanel
+          settings={tts}
+          voices={voices}
+          characters={characters}
+          onChange={(next) => updateSettings({ tts: next })}
+          onClose={() => setShowVoicePanel(false)}
+        />
+      )}
+
+      {showNotes && (
+        <AnnotationsPanel
+          bookmarks={bookmarks}
+          annotations={annotations}
+          focusId={notesFocusId}
+          onJump={setCurrentIndex}
+          onBookmarksChange={(next) => onAnnotationsChange?.({ bookmarks: next })}
+          onAnnotationsChange={(next) => onAnnotationsChange?.({ annotations: next })}
+          onClose={() => setShowNotes(false)}
+        />
+      )}
+
+      {showPageGrid && (
+        <PageGrid
+          pageCount={manga.pageCount}
+          visiblePages={visiblePages}
+          direction={direction}
+          loadThumbnail={manga.loadThumbnail}
+          onSelect={(pageIndex) => { setCurrentIndex(pageIndex); setShowPageGrid(false); }}
+          onClose={() => setShowPageGrid(false)}
+        />
+      )}
+
       {/* Top Overlay */}
       <div className={`absolute top-0 left-0 right-0 p-6 flex justify-between items-start transition-opacity duration-300 z-30 ${showControls ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+        <div className="flex items-center gap-2">
         <button 
           onClick={onClose}
           className="size-12 flex items-center justify-center rounded-lg bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white"
@@ -448,8 +1079,87 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
           <span className="material-symbols-outlined text-2xl">home</span>
         </button>
 
-        {/* TTS Toggle Pill */}
+        {/* Bookmark the current page */}
+        <button
+          onClick={toggleBookmark}
+          className={`size-12 flex items-center justify-center rounded-lg backdrop-blur-md border transition-colors text-white ${isBookmarked ? 'bg-primary border-primary/50' : 'bg-reader-dark/40 border-white/10 hover:bg-reader-dark/60'}`}
+          title={isBookmarked ? 'Remove bookmark' : 'Bookmark this page'}
+        >
+          <span className={`material-symbols-outlined text-2xl ${isBookmarked ? 'material-symbols-filled' : ''}`}>bookmark</span>
+        </button>
+
+        {/* Bookmarks & annotations panel */}
+        <button
+          onClick={() => showNotes ? setShowNotes(false) : openNotes()}
+          className={`size-12 flex items-center justify-center rounded-lg backdrop-blur-md border transition-colors text-white ${showNotes ? 'bg-primary border-primary/50' : 'bg-reader-dark/40 border-white/10 hover:bg-reader-dark/60'}`}
+          title="Bookmarks & annotations"
+        >
+          <span className="material-symbols-outlined text-2xl">bookmarks</span>
+        </button>
+
+        {/* Annotate mode: tap a bubble to highlight and comment on it */}
         {isAnalysisEnabled && (
+          <button
+            onClick={() => setIsAnnotating(!isAnnotating)}
+            className={`size-12 flex items-center justify-center rounded-lg backdrop-blur-md border transition-colors text-white ${isAnnotating ? 'bg-yellow-300/80 text-black border-yellow-300' : 'bg-reader-dark/40 border-white/10 hover:bg-reader-dark/60'}`}
+            title={isAnnotating ? 'Stop annotating' : 'Annotate speech bubbles'}
+          >
+            <span className="material-symbols-outlined text-2xl">edit_note</span>
+          </button>
+        )}
+
+        {/* Export menu */}
+        <div className="relative">
+          <button
+            onClick={() => setShowExportMenu(!showExportMenu)}
+            disabled={isExporting}
+            className="size-12 flex items-center justify-center rounded-lg bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white disabled:opacity-50"
+            title="Export analysis"
+          >
+            <span className={`material-symbols-outlined text-2xl ${isExporting ? 'animate-spin' : ''}`}>{isExporting ? 'progress_activity' : 'ios_share'}</span>
+          </button>
+          {showExportMenu && (
+            <div className="absolute top-full left-0 mt-2 w-52 p-1 rounded-xl bg-reader-dark/95 backdrop-blur-xl border border-white/10 shadow-2xl">
+              {EXPORT_FORMATS.map(({ format, icon, label }) => (
+                <button
+                  key={format}
+                  onClick={() => exportAnalysis(format)}
+                  className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left text-sm text-white hover:bg-white/10 transition-colors"
+                >
+                  <span className="material-symbols-outlined text-xl text-white/70">{icon}</span>
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        </div>
+
+        <div className="flex items-center gap-2">
+        {/* Listen Mode Pill */}
+        {listenState !== 'off' && (
+             <div className="flex items-center gap-1 pl-4 pr-1 h-12 rounded-full bg-primary text-white border border-primary/50 backdrop-blur-md">
+                <span className="material-symbols-outlined text-xl">headphones</span>
+                <span className="text-sm font-medium hidden sm:inline mr-1">{listenState === 'paused' ? 'Paused' : 'Listening'}</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); listenState === 'paused' ? resumeListening() : pauseListening(); }}
+                  className="size-10 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors"
+                  title={listenState === 'paused' ? 'Resume' : 'Pause'}
+                >
+                  <span className="material-symbols-outlined text-xl">{listenState === 'paused' ? 'play_arrow' : 'pause'}</span>
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); stopListening(); }}
+                  className="size-10 flex items-center justify-center rounded-full hover:bg-white/10 transition-colors"
+                  title="Stop listening"
+                >
+                  <span className="material-symbols-outlined text-xl">stop</span>
+                </button>
+             </div>
+        )}
+
+        {/* TTS Toggle Pill */}
+        {isAnalysisEnabled && listenState === 'off' && (
              <button 
                 onClick={(e) => { e.stopPropagation(); setTtsEnabled(!ttsEnabled); }}
                 className={`flex items-center gap-2 px-4 h-12 rounded-full backdrop-blur-md border transition-all ${ttsEnabled ? 'bg-primary text-white border-primary/50' : 'bg-reader-dark/40 text-white/70 border-white/10 hover:bg-reader-dark/60'}`}
@@ -462,6 +1172,74 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
                 </span>
              </button>
         )}
+        {isAnalysisEnabled && ttsEnabled && (
+             <button
+                onClick={(e) => { e.stopPropagation(); setShowVoicePanel(true); }}
+                className="size-12 flex items-center justify-center rounded-full bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white"
+                title="Voice settings"
+             >
+                <span className="material-symbols-outlined text-xl">record_voice_over</span>
+             </button>
+        )}
+
+        {/* Translation Toggle Pill (per page) */}
+        {isAnalysisEnabled && canTranslate && (
+             <button
+                onClick={(e) => { e.stopPropagation(); toggleTranslation(); }}
+                className={`flex items-center gap-2 px-4 h-12 rounded-full backdrop-blur-md border transition-all ${isShowingTranslation ? 'bg-primary text-white border-primary/50' : 'bg-reader-dark/40 text-white/70 border-white/10 hover:bg-reader-dark/60'}`}
+                title={translationError || (isShowingTranslation ? 'Show original text' : `Translate this page to ${translationLanguage}`)}
+             >
+                <span className={`material-symbols-outlined text-xl ${isTranslating ? 'animate-spin' : ''} ${translationError ? 'text-red-400' : ''}`}>
+                    {isTranslating ? 'progress_activity' : translationError ? 'error' : 'translate'}
+                </span>
+                <span className="text-sm font-medium hidden sm:inline">
+                    {isShowingTranslation ? translationLanguage : 'Original'}
+                </span>
+             </button>
+        )}
+        </div>
+
+        <div className="flex items-center gap-2">
+        {/* Reading Direction */}
+        <button
+          onClick={() => updateSettings({ direction: isRTL ? 'ltr' : 'rtl' })}
+          className="h-12 px-3 flex items-center gap-1 rounded-lg bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white"
+          title={isRTL ? 'Reading right-to-left' : 'Reading left-to-right'}
+        >
+          <span className="material-symbols-outlined text-2xl">{isRTL ? 'west' : 'east'}</span>
+          <span className="text-xs font-bold uppercase">{direction}</span>
+        </button>
+
+        {/* Fit Mode (paged layouts only) */}
+        {layout !== 'scroll' && (
+          <button
+            onClick={() => updateSettings({ fitMode: FIT_CYCLE[fitMode].next })}
+            className="size-12 flex items-center justify-center rounded-lg bg-reader-dark/40 backdrop-blur-md border border-white/10 hover:bg-reader-dark/60 transition-colors text-white"
+            title={FIT_CYCLE[fitMode].label}
+          >
+            <span className="material-symbols-outlined text-2xl">{FIT_CYCLE[fitMode].icon}</span>
+          </button>
+        )}
+
+        {/* Page Layout: single -> two-page spread -> continuous scroll */}
+        <button
+          onClick={() => updateSettings({ layout: LAYOUT_CYCLE[layout].next })}
+          className={`size-12 flex items-center justify-center rounded-lg backdrop-blur-md border transition-colors text-white ${layout !== 'single' ? 'bg-primary border-primary/50' : 'bg-reader-dark/40 border-white/10 hover:bg-reader-dark/60'}`}
+          title={LAYOUT_CYCLE[layout].label}
+        >
+          <span className="material-symbols-outlined text-2xl">{LAYOUT_CYCLE[layout].icon}</span>
+        </button>
+
+        {/* Shift spreads by one so the cover stands alone */}
+        {layout === 'double' && (
+          <button
+            onClick={() => updateSettings({ shiftSpreads: !shiftSpreads })}
+            className={`size-12 flex items-center justify-center rounded-lg backdrop-blur-md border transition-colors text-white ${shiftSpreads ? 'bg-primary/60 border-primary/50' : 'bg-reader-dark/40 border-white/10 hover:bg-reader-dark/60'}`}
+            title={shiftSpreads ? 'Cover shown alone (click to pair from page 1)' : 'Pages paired from page 1 (click to show cover alone)'}
+          >
+            <span className="material-symbols-outlined text-2xl">swap_horiz</span>
+          </button>
+        )}
 
         <button 
           onClick={toggleFullScreen}
@@ -471,30 +1249,90 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
             {isFullScreen ? 'close_fullscreen' : 'fullscreen'}
           </span>
         </button>
+        </div>
       </div>
 
       {/* Bottom Controls */}
       <div className={`fixed bottom-10 left-0 right-0 px-6 flex flex-col items-center gap-6 transition-all duration-300 z-30 ${showControls ? 'translate-y-0 opacity-100' : 'translate-y-20 opacity-0 pointer-events-none'}`}>
         
+        {/* Next Chapter (last page only) */}
+        {onNextChapter && isLast && (
+          <button
+            onClick={onNextChapter}
+            className="flex items-center gap-2 px-5 h-11 rounded-full bg-primary text-white text-sm font-medium shadow-[0_0_20px_rgba(75,43,238,0.5)] hover:bg-primary/90 transition-colors max-w-full"
+          >
+            <span className="truncate">Next: {nextChapterTitle}</span>
+            <span className="material-symbols-outlined text-xl">skip_next</span>
+          </button>
+        )}
+
+        {/* Whole-chapter analysis progress, with one segment per page */}
+        {chapterJob && (
+          <div className="w-full max-w-xl flex flex-col gap-2 p-3 rounded-xl bg-reader-dark/60 backdrop-blur-xl border border-white/10">
+            <div className="flex items-center gap-3 text-xs text-white/70">
+              <span className="material-symbols-outlined text-lg text-primary">psychology</span>
+              <span className="flex-1">
+                {chapterProgress.active === 0 ? 'Chapter analyzed' : chapterJob.paused ? 'Paused' : 'Analyzing chapter'}
+                {' · '}{chapterProgress.complete}/{manga.pageCount} pages
+                {chapterProgress.error > 0 && <span className="text-red-400"> · {chapterProgress.error} failed</span>}
+              </span>
+              {chapterProgress.active > 0 && (
+                <button onClick={toggleChapterJobPaused} className="size-8 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors" title={chapterJob.paused ? 'Resume' : 'Pause'}>
+                  <span className="material-symbols-outlined text-xl">{chapterJob.paused ? 'play_arrow' : 'pause'}</span>
+                </button>
+              )}
+              <button onClick={cancelChapterJob} className="size-8 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors" title={chapterProgress.active > 0 ? 'Cancel' : 'Dismiss'}>
+                <span className="material-symbols-outlined text-xl">close</span>
+              </button>
+            </div>
+            <div className={`flex gap-px h-1.5 ${isRTL ? 'flex-row-reverse' : ''}`}>
+              {Array.from({ length: manga.pageCount }, (_, i) => {
+                const status = analysisCache[i]?.status;
+                const color = status === 'complete' ? 'bg-primary'
+                  : status === 'error' ? 'bg-red-500'
+                  : status === 'loading' ? 'bg-primary/50 animate-pulse'
+                  : 'bg-white/10';
+                return (
+                  <button
+                    key={i}
+                    onClick={() => setCurrentIndex(i)}
+                    className={`flex-1 rounded-sm ${color}`}
+                    title={`Page ${i + 1}: ${status === 'complete' ? 'done' : status || 'not analyzed'}${analysisCache[i]?.error ? ` (${analysisCache[i].error})` : ''}`}
+                  />
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Slider */}
-        <div className="w-full max-w-xl flex items-center gap-4">
-            <span className="text-xs text-white/50 w-8 text-right">{currentIndex + 1}</span>
+        {/* Right-to-left: the slider fills from the right and the labels swap sides */}
+        <div className={`w-full max-w-xl flex items-center gap-4 ${isRTL ? 'flex-row-reverse' : ''}`}>
+            <span className={`text-xs text-white/50 w-8 ${isRTL ? 'text-left' : 'text-right'}`}>{lastVisiblePage + 1}</span>
             <input 
               type="range" 
+              dir={direction}
               min="0" 
-              max={manga.pages.length - 1} 
+              max={manga.pageCount - 1} 
               value={currentIndex} 
               onChange={(e) => setCurrentIndex(Number(e.target.value))}
               className="flex-1 h-1 bg-white/10 rounded-full appearance-none cursor-pointer accent-white transition-all hover:bg-white/20 [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:h-4 [&::-webkit-slider-thumb]:w-4 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-white"
             />
-            <span className="text-xs text-white/50 w-8">{manga.pages.length}</span>
+            <span className={`text-xs text-white/50 w-8 ${isRTL ? 'text-right' : ''}`}>{manga.pageCount}</span>
+            <button
+              onClick={() => setShowPageGrid(true)}
+              className="size-8 flex items-center justify-center rounded-lg text-white/60 hover:text-white hover:bg-white/10 transition-colors"
+              title="All pages"
+            >
+              <span className="material-symbols-outlined text-xl">grid_view</span>
+            </button>
         </div>
 
         {/* Main Buttons */}
         <div className="flex items-center gap-4 p-2 rounded-xl bg-reader-dark/60 backdrop-blur-xl border border-white/10 shadow-2xl">
           <button 
-            onClick={handlePrev}
-            disabled={currentIndex === 0}
+            onClick={handleLeft}
+            disabled={isRTL ? isLast : isFirst}
             className="size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
           >
             <span className="material-symbols-outlined text-white text-3xl">chevron_left</span>
@@ -509,14 +1347,36 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
                  analyzeBatch(batch);
                }}
                className={`size-16 flex items-center justify-center rounded-lg transition-all border ${isAnalysisEnabled ? 'bg-primary text-white border-primary shadow-[0_0_20px_rgba(75,43,238,0.5)]' : 'bg-white/5 text-white/80 border-white/5 hover:bg-white/10'}`}
-               title="Analyze/Scan current batch"
+               title={canUseProvider ? 'Analyze/Scan current batch' : 'Show saved analysis (offline)'}
              >
                  <span className="material-symbols-outlined text-3xl">psychology</span>
              </button>
           </div>
 
+          {/* Listen mode: read aloud and turn pages hands-free */}
+          {listenState === 'off' && (
+            <button
+              onClick={startListening}
+              className="size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors"
+              title="Listen mode"
+            >
+              <span className="material-symbols-outlined text-white text-2xl">headphones</span>
+            </button>
+          )}
+
+          {/* Analyze the whole chapter in the background */}
+          {!chapterJob && canUseProvider && (
+            <button
+              onClick={analyzeChapter}
+              className="size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors"
+              title="Analyze entire chapter"
+            >
+              <span className="material-symbols-outlined text-white text-2xl">auto_awesome_motion</span>
+            </button>
+          )}
+
           {/* OCR Extract Button - Show if current page not cached */}
-          {!ocrTextCache[currentIndex] && (
+          {!ocrTextCache[currentIndex] && canUseProvider && (
             <button
               onClick={() => requestOCRForPage(currentIndex)}
               className="size-14 flex items-center justify-center rounded-lg bg-blue-600/30 hover:bg-blue-600/50 border border-blue-500 transition-colors shadow-lg"
@@ -537,8 +1397,8 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
           )}
 
           <button 
-            onClick={handleNext}
-            disabled={currentIndex === manga.pages.length - 1}
+            onClick={handleRight}
+            disabled={isRTL ? isFirst : isLast}
             className="size-14 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
           >
             <span className="material-symbols-outlined text-white text-3xl">chevron_right</span>
@@ -549,43 +1409,77 @@ export const Reader: React.FC<ReaderProps> = ({ manga, onClose }) => {
   );
 };
 
-// Helper component to handle positioning
-const OverlayLayer: React.FC<{ bubbles: SpeechBubble[], activeBubbleIndex: number | null }> = ({ bubbles, activeBubbleIndex }) => {
-    const [imgRect, setImgRect] = useState<{width: number, height: number} | null>(null);
-    const containerRef = useRef<HTMLDivElement>(null);
-
-    useEffect(() => {
-        const updateRect = () => {
-            if (containerRef.current) {
-                const img = containerRef.current.parentElement?.querySelector('img');
-                if (img) {
-                    setImgRect({
-                        width: img.offsetWidth,
-                        height: img.offsetHeight
-                    });
-                }
-            }
-        };
-        updateRect();
-        window.addEventListener('resize', updateRect);
-        const interval = setInterval(updateRect, 500);
-        return () => {
-            window.removeEventListener('resize', updateRect);
-            clearInterval(interval);
-        }
-    }, []);
+// A single page image with its bubble overlay. The wrapper is sized exactly like the image,
+// so the overlay can be positioned in % and follows any transform applied to a parent.
+const PageView: React.FC<{
+    src?: string, // Object URL from the page cache; missing while the page is being read
+    pageIndex: number,
+    size?: Size, // Displayed size; unknown until the image has loaded
+    maxSize?: Size, // Bounds used until then
+    analysis?: PageAnalysis,
+    translation?: PageTranslation, // Shown in place of the original lettering when complete
+    activeBubbleIndex: number | null,
+    highlightedBubbleIndex?: number | null,
+    highlightBox?: [number, number, number, number], // Search hit outlined on its own, without the page's bubbles
+    annotations?: BubbleAnnotation[], // All of the manga's annotations; this page's are matched to its bubbles
+    onBubbleClick?: (pageIndex: number, bubbleIndex: number) => void, // Set in annotate mode
+    onLoad: (pageIndex: number, img: HTMLImageElement) => void,
+}> = ({ src, pageIndex, size, maxSize, analysis, translation, activeBubbleIndex, highlightedBubbleIndex = null, highlightBox, annotations = [], onBubbleClick, onLoad }) => (
+    <div className="relative shrink-0 mx-auto" style={size}>
+        {src ? (
+        <img 
+            src={src} 
+            className={`block shadow-2xl ${size ? 'h-full w-full' : 'object-contain'}`}
+            style={size ? undefined : { maxWidth: maxSize?.width, maxHeight: maxSize?.height }}
+            alt={`Page ${pageIndex + 1}`}
+            draggable={false}
+            onLoad={(e) => onLoad(pageIndex, e.currentTarget)}
+        />
+        ) : (
+        <div className="flex items-center justify-center" style={size || { width: maxSize?.width, height: maxSize?.height }}>
+            <div className="size-8 rounded-full border-2 border-white/30 border-t-transparent animate-spin" />
+        </div>
+        )}
 
-    if (!imgRect) return <div ref={containerRef} />;
+        {/* Bounding Box Overlays */}
+        {size && analysis?.status === 'complete' && (
+            <OverlayLayer 
+                bubbles={analysis.bubbles} 
+                translations={translation?.status === 'complete' ? translation.texts : undefined}
+                activeBubbleIndex={activeBubbleIndex}
+                highlightedBubbleIndex={highlightedBubbleIndex}
+                annotations={annotationsByBubble(analysis.bubbles, annotations, pageIndex)}
+                onBubbleClick={onBubbleClick && (bubbleIndex => onBubbleClick(pageIndex, bubbleIndex))}
+            />
+        )}
+        {size && highlightBox && (
+            <div
+                className="absolute border-4 border-amber-400 bg-amber-400/20 shadow-[0_0_15px_rgba(251,191,36,0.6)] animate-pulse pointer-events-none"
+                style={{
+                    top: `${highlightBox[0] / 10}%`,
+                    left: `${highlightBox[1] / 10}%`,
+                    height: `${(highlightBox[2] - highlightBox[0]) / 10}%`,
+                    width: `${(highlightBox[3] - highlightBox[1]) / 10}%`,
+                }}
+            />
+        )}
+    </div>
+);
 
+// Bubble boxes, positioned in % of the page wrapper (box_2d is on a 0-1000 scale)
+// With translations, each box is instead covered in white and the translated text typeset inside it.
+// The highlighted bubble (a search hit) gets an amber outline in either mode.
+// Annotated bubbles get a comment badge; in annotate mode every bubble can be tapped.
+const OverlayLayer: React.FC<{
+    bubbles: SpeechBubble[],
+    translations?: string[],
+    activeBubbleIndex: number | null,
+    highlightedBubbleIndex: number | null,
+    annotations: Record<number, BubbleAnnotation>,
+    onBubbleClick?: (bubbleIndex: number) => void,
+}> = ({ bubbles, translations, activeBubbleIndex, highlightedBubbleIndex, annotations, onBubbleClick }) => {
     return (
-        <div 
-            ref={containerRef}
-            style={{ 
-                width: imgRect.width, 
-                height: imgRect.height, 
-                position: 'absolute' 
-            }}
-        >
+        <div className="absolute inset-0 pointer-events-none">
             {bubbles.map((bubble, i) => {
                 const [ymin, xmin, ymax, xmax] = bubble.box_2d;
                 const top = (ymin / 1000) * 100;
@@ -594,11 +1488,43 @@ const OverlayLayer: React.FC<{ bubbles: SpeechBubble[], activeBubbleIndex: numbe
                 const width = ((xmax - xmin) / 1000) * 100;
 
                 const isActive = i === activeBubbleIndex;
+                const isHighlighted = i === highlightedBubbleIndex && !isActive;
+                const annotation = annotations[i];
+                const clickProps = onBubbleClick ? {
+                    onClick: (e: React.MouseEvent) => { e.stopPropagation(); onBubbleClick(i); },
+                    className: 'pointer-events-auto cursor-pointer',
+                } : { className: '' };
+                const annotationBadge = annotation && (
+                    <div className="absolute -top-3 -right-3 size-6 rounded-full bg-yellow-300 text-black flex items-center justify-center shadow-md z-10" title={annotation.comment || 'Annotated'}>
+                        <span className="material-symbols-outlined text-sm">sticky_note_2</span>
+                    </div>
+                );
+
+                if (translations) {
+                    return (
+                        <div
+                            key={i}
+                            onClick={clickProps.onClick}
+                            className={`absolute rounded-[35%] bg-white p-[6%] transition-shadow duration-300 ${clickProps.className} ${isActive ? 'ring-4 ring-green-400 z-50' : isHighlighted ? 'ring-4 ring-amber-400 z-40' : annotation ? 'ring-4 ring-yellow-300' : ''}`}
+                            style={{
+                                top: `${top}%`,
+                                left: `${left}%`,
+                                width: `${width}%`,
+                                height: `${height}%`,
+                            }}
+                            title={bubble.text}
+                        >
+                            <FittedText text={translations[i] ?? bubble.text} />
+                            {annotationBadge}
+                        </div>
+                    );
+                }
 
                 return (
                     <div
                         key={i}
-                        className={`absolute transition-all duration-300 group ${isActive ? 'border-4 border-green-400 bg-green-400/20 z-50 shadow-[0_0_15px_rgba(74,222,128,0.5)]' : 'border-2 border-red-500 bg-red-500/10 hover:bg-red-500/20'}`}
+                        onClick={clickProps.onClick}
+                        className={`absolute transition-all duration-300 group ${clickProps.className} ${isActive ? 'border-4 border-green-400 bg-green-400/20 z-50 shadow-[0_0_15px_rgba(74,222,128,0.5)]' : isHighlighted ? 'border-4 border-amber-400 bg-amber-400/20 z-40 shadow-[0_0_15px_rgba(251,191,36,0.6)] animate-pulse' : annotation ? 'border-2 border-yellow-300 bg-yellow-300/30 hover:bg-yellow-300/40' : 'border-2 border-red-500 bg-red-500/10 hover:bg-red-500/20'}`}
                         style={{
                             top: `${top}%`,
                             left: `${left}%`,
@@ -615,10 +1541,55 @@ const OverlayLayer: React.FC<{ bubbles: SpeechBubble[], activeBubbleIndex: numbe
                         {/* Tooltip */}
                         <div className={`opacity-0 group-hover:opacity-100 absolute bottom-full left-1/2 -translate-x-1/2 mb-2 bg-black/90 text-white text-xs p-2 rounded w-48 pointer-events-none transition-opacity z-20 ${isActive ? 'hidden' : ''}`}>
                             {bubble.text}
+                            {annotation?.comment && <div className="mt-1 pt-1 border-t border-white/20 text-yellow-200">{annotation.comment}</div>}
                         </div>
+                        {annotationBadge}
                     </div>
                 );
             })}
         </div>
     );
-};
\ No newline at end of file
+};
+// Text scaled to the largest font size that still fits its box, refitted when the box resizes
+const MIN_FONT_SIZE = 6;
+const MAX_FONT_SIZE = 40;
+
+const FittedText: React.FC<{ text: string }> = ({ text }) => {
+    const boxRef = useRef<HTMLDivElement>(null);
+    const textRef = useRef<HTMLDivElement>(null);
+
+    useLayoutEffect(() => {
+        const box = boxRef.current;
+        const inner = textRef.current;
+        if (!box || !inner) return;
+
+        const fit = () => {
+            const fits = (fontSize: number) => {
+                inner.style.fontSize = `${fontSize}px`;
+                return inner.offsetHeight <= box.clientHeight && inner.scrollWidth <= box.clientWidth;
+            };
+            // Binary search down to half a pixel
+            let low = MIN_FONT_SIZE;
+            let high = MAX_FONT_SIZE;
+            while (high - low > 0.5) {
+                const mid = (low + high) / 2;
+                if (fits(mid)) low = mid;
+                else high = mid;
+            }
+            inner.style.fontSize = `${low}px`;
+        };
+
+        fit();
+        const observer = new ResizeObserver(fit);
+        observer.observe(box);
+        return () => observer.disconnect();
+    }, [text]);
+
+    return (
+        <div ref={boxRef} className="h-full w-full flex items-center justify-center overflow-hidden">
+            <div ref={textRef} className="w-full text-center text-black font-semibold leading-tight break-words">
+                {text}
+            </div>
+        </div>
+    );
+};
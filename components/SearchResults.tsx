@@ -0,0 +1,60 @@
+import React, { useMemo } from 'react';
+import { LibraryItem, PageTarget } from '../types';
+import { SearchHit } from '../utils/search';
+
+interface SearchResultsProps {
+  items: LibraryItem[];
+  hits: SearchHit[];
+  onOpen: (id: string, target: PageTarget) => void;
+}
+
+// Search hits grouped by manga, in library order
+export const SearchResults: React.FC<SearchResultsProps> = ({ items, hits, onOpen }) => {
+  const groups = useMemo(() => items
+    .map(item => ({ item, hits: hits.filter(hit => hit.mangaId === item.id) }))
+    .filter(group => group.hits.length > 0),
+  [items, hits]);
+
+  if (groups.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center h-[40vh] text-center text-white/50">
+        <span className="material-symbols-outlined text-6xl mb-4 text-white/10">search_off</span>
+        <p className="text-sm max-w-sm">No matches. Only pages that have been analyzed or OCR'd can be searched.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-6">
+      {groups.map(({ item, hits: itemHits }) => (
+        <section key={item.id} className="flex gap-4">
+          <div
+            className="w-16 shrink-0 aspect-[2/3] rounded-md bg-cover bg-center ring-1 ring-white/10"
+            style={{ backgroundImage: `url('${item.coverUrl}')` }}
+          />
+          <div className="flex-1 min-w-0">
+            <h3 className="text-sm font-semibold text-white truncate">{item.title}</h3>
+            <p className="text-xs text-white/50 mb-2">{itemHits.length} {itemHits.length === 1 ? 'match' : 'matches'}</p>
+            <ul className="flex flex-col gap-1">
+              {itemHits.map((hit, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => onOpen(hit.mangaId, { pageIndex: hit.pageIndex, bubbleText: hit.bubbleText, box_2d: hit.box_2d })}
+                    className="w-full flex items-baseline gap-3 p-2 rounded-lg text-left hover:bg-white/5 transition-colors"
+                  >
+                    <span className="shrink-0 text-xs font-medium text-primary">p. {hit.pageIndex + 1}</span>
+                    <span className="text-sm text-white/70 line-clamp-2">
+                      {hit.snippet.before}
+                      <mark className="bg-primary/40 text-white rounded px-0.5">{hit.snippet.match}</mark>
+                      {hit.snippet.after}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
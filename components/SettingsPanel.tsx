@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AppSettings, ImageQuality, LibraryItem } from '../types';
+import { VISION_PROVIDERS } from '../utils/visionProviders';
+import { AnalysisCacheUsage, clearAnalysisCache, getAnalysisCacheUsage } from '../utils/storage';
+import { TRANSLATION_LANGUAGES } from '../utils/settings';
+import { IMAGE_QUALITY_PROFILES } from '../utils/imageEncoding';
+import { RestoreSummary, exportLibrary, restoreLibrary } from '../utils/backup';
+import { downloadFile } from '../utils/analysisExport';
+
+interface SettingsPanelProps {
+  settings: AppSettings;
+  onChange: (settings: AppSettings) => void;
+  items: LibraryItem[];
+  onRestored: () => void; // A backup was merged in; reload the library and settings
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const restoreMessage = ({ added, merged, skipped, analysis }: RestoreSummary) => [
+  `${added} added`,
+  `${merged} updated`,
+  skipped > 0 && `${skipped} skipped (pages not in the backup)`,
+  `${analysis} cached results restored`,
+].filter(Boolean).join(' · ');
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onChange, items, onRestored, onClose }) => {
+  const update = (changes: Partial<AppSettings>) => onChange({ ...settings, ...changes });
+  const [cacheUsage, setCacheUsage] = useState<Record<string, AnalysisCacheUsage> | null>(null);
+
+  const refreshCacheUsage = () => {
+    getAnalysisCacheUsage()
+      .then(setCacheUsage)
+      .catch(error => console.error("Failed to read analysis cache usage", error));
+  };
+
+  useEffect(refreshCacheUsage, []);
+
+  const handleClearCache = async (id: string) => {
+    try {
+      await clearAnalysisCache(id);
+    } catch (error) {
+      console.error("Failed to clear analysis cache", error);
+    }
+    refreshCacheUsage();
+  };
+
+  const cachedItems = cacheUsage ? items.filter(item => cacheUsage[item.id]) : [];
+
+  // Library backup: one export or restore at a time, with its progress and outcome
+  const [includePages, setIncludePages] = useState(true);
+  const [backupTask, setBackupTask] = useState<{ label: string, progress: number } | null>(null);
+  const [backupMessage, setBackupMessage] = useState<string | null>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExport = async () => {
+    setBackupMessage(null);
+    setBackupTask({ label: 'Exporting', progress: 0 });
+    try {
+      const blob = await exportLibrary(includePages, progress => setBackupTask({ label: 'Exporting', progress }));
+      const date = new Date().toISOString().slice(0, 10);
+      downloadFile(blob, `MangaLunar backup ${date}${includePages ? '' : ' (metadata)'}.zip`);
+    } catch (error) {
+      console.error("Failed to export library", error);
+      alert(error instanceof Error ? error.message : 'Failed to export the library.');
+    } finally {
+      setBackupTask(null);
+    }
+  };
+
+  const handleRestore = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setBackupMessage(null);
+    setBackupTask({ label: 'Restoring', progress: 0 });
+    try {
+      const summary = await restoreLibrary(file, progress => setBackupTask({ label: 'Restoring', progress }));
+      setBackupMessage(restoreMessage(summary));
+      onRestored();
+      refreshCacheUsage();
+    } catch (error) {
+      console.error("Failed to restore library", error);
+      alert(error instanceof Error ? error.message : 'Failed to restore the library.');
+    } finally {
+      setBackupTask(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-2xl bg-reader-dark border border-white/10 shadow-2xl p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">Settings</h2>
+          <button onClick={onClose} className="size-10 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors" aria-label="Close settings">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        {/* Vision / OCR Provider */}
+        <section>
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-white/50 mb-3">Text recognition</h3>
+          <div className="flex flex-col gap-2">
+            {Object.values(VISION_PROVIDERS).map(provider => (
+              <label
+                key={provider.id}
+                className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${settings.visionProvider === provider.id ? 'border-primary bg-primary/10' : 'border-white/10 hover:bg-white/5'}`}
+              >
+                <input
+                  type="radio"
+                  name="visionProvider"
+                  className="mt-1 accent-primary"
+                  checked={settings.visionProvider === provider.id}
+                  onChange={() => update({ visionProvider: provider.id })}
+                />
+                <span>
+                  <span className="flex items-center gap-2 text-sm font-medium">
+                    {provider.label}
+                    {!provider.requiresNetwork && (
+                      <span className="px-1.5 py-0.5 rounded bg-white/10 text-[10px] uppercase tracking-wider text-white/60">Offline</span>
+                    )}
+                  </span>
+                  <span className="block text-xs text-white/50 mt-1">{provider.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </section>
+
+        {/* Scaling and compression of pages uploaded to network providers */}
+        <section className="mt-8">
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-white/50 mb-3">Upload quality</h3>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              Page images
+              <span className="block text-xs text-white/50">
+                {VISION_PROVIDERS[settings.visionProvider].requiresNetwork
+                  ? IMAGE_QUALITY_PROFILES[settings.imageQuality].description
+                  : `${VISION_PROVIDERS[settings.visionProvider].label} reads pages at full size.`}
+              </span>
+            </span>
+            <select
+              value={settings.imageQuality}
+              onChange={(e) => update({ imageQuality: e.target.value as ImageQuality })}
+              className="px-2 py-1 rounded-lg bg-white/5 border border-white/10"
+            >
+              {(Object.keys(IMAGE_QUALITY_PROFILES) as ImageQuality[]).map(quality => (
+                <option key={quality} value={quality} className="bg-reader-dark">
+                  {IMAGE_QUALITY_PROFILES[quality].label} ({IMAGE_QUALITY_PROFILES[quality].maxWidth}px)
+                </option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        {/* Translate mode target language */}
+        <section className="mt-8">
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-white/50 mb-3">Translation</h3>
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              Translate bubbles to
+              {!VISION_PROVIDERS[settings.visionProvider].translateTexts && (
+                <span className="block text-xs text-white/50">{VISION_PROVIDERS[settings.visionProvider].label} can't translate; switch provider to use translate mode.</span>
+              )}
+            </span>
+            <select
+              value={settings.translationLanguage}
+              onChange={(e) => update({ translationLanguage: e.target.value })}
+              className="px-2 py-1 rounded-lg bg-white/5 border border-white/10"
+            >
+              {TRANSLATION_LANGUAGES.map(language => (
+                <option key={language} value={language} className="bg-reader-dark">{language}</option>
+              ))}
+            </select>
+          </label>
+        </section>
+
+        {/* Request queue limits, shared by single-batch and whole-chapter analysis */}
+        <section className="mt-8">
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-white/50 mb-3">Analysis queue</h3>
+          <div className="flex flex-col gap-3">
+            <label className="flex items-center justify-between gap-4 text-sm">
+              <span>
+                Parallel requests
+                <span className="block text-xs text-white/50">Batches sent to the provider at once</span>
+              </span>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={settings.analysisConcurrency}
+                onChange={(e) => update({ analysisConcurrency: Math.min(Math.max(Number(e.target.value) || 1, 1), 8) })}
+                className="w-20 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-right"
+              />
+            </label>
+            <label className="flex items-center justify-between gap-4 text-sm">
+              <span>
+                Requests per minute
+                <span className="block text-xs text-white/50">0 for no limit. Keep this under your API quota.</span>
+              </span>
+              <input
+                type="number"
+                min={0}
+                value={settings.analysisRequestsPerMinute}
+                onChange={(e) => update({ analysisRequestsPerMinute: Math.max(Number(e.target.value) || 0, 0) })}
+                className="w-20 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-right"
+              />
+            </label>
+          </div>
+        </section>
+
+        {/* Saved analysis / OCR results, per manga */}
+        <section className="mt-8">
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-white/50 mb-3">Analysis cache</h3>
+          {cacheUsage === null ? (
+            <p className="text-xs text-white/50">Loading...</p>
+          ) : cachedItems.length === 0 ? (
+            <p className="text-xs text-white/50">No saved analysis yet.</p>
+          ) : (
+            <ul className="flex flex-col gap-1">
+              {cachedItems.map(item => (
+                <li key={item.id} className="flex items-center gap-3 p-2 rounded-lg hover:bg-white/5">
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-sm truncate">{item.title}</span>
+                    <span className="block text-xs text-white/50">
+                      {cacheUsage[item.id].entries} results · {formatBytes(cacheUsage[item.id].bytes)}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => handleClearCache(item.id)}
+                    className="shrink-0 px-3 py-1 rounded-lg text-xs font-medium text-white/70 border border-white/10 hover:bg-white/10 transition-colors"
+                  >
+                    Clear
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {/* Library backup, to move the library to another browser or device */}
+        <section className="mt-8">
+          <h3 className="text-sm font-semibold uppercase tracking-wider text-white/50 mb-3">Backup</h3>
+          <p className="text-xs text-white/50 mb-3">
+            One file with your manga, reading progress, notes, tags, collections, settings and saved analysis.
+            Restoring merges it into this library; nothing here is overwritten.
+          </p>
+          <label className="flex items-center gap-3 text-sm mb-3 cursor-pointer">
+            <input type="checkbox" className="accent-primary" checked={includePages} onChange={(e) => setIncludePages(e.target.checked)} />
+            <span>
+              Include manga pages
+              <span className="block text-xs text-white/50">Without them the backup is small, but only restores onto manga imported again</span>
+            </span>
+          </label>
+          <div className="flex gap-2">
+            <button
+              onClick={handleExport}
+              disabled={!!backupTask}
+              className="flex-1 px-3 py-2 rounded-lg text-sm font-medium border border-white/10 hover:bg-white/10 transition-colors disabled:opacity-40"
+            >
+              Export library
+            </button>
+            <button
+              onClick={() => backupInputRef.current?.click()}
+              disabled={!!backupTask}
+              className="flex-1 px-3 py-2 rounded-lg text-sm font-medium border border-white/10 hover:bg-white/10 transition-colors disabled:opacity-40"
+            >
+              Import library
+            </button>
+            <input ref={backupInputRef} type="file" accept=".zip" onChange={handleRestore} className="hidden" />
+          </div>
+          {backupTask && (
+            <div className="mt-3">
+              <p className="text-xs text-white/60 mb-1">{backupTask.label}... {Math.round(backupTask.progress * 100)}%</p>
+              <div className="h-1 rounded-full bg-white/10">
+                <div className="h-full rounded-full bg-primary transition-[width]" style={{ width: `${backupTask.progress * 100}%` }} />
+              </div>
+            </div>
+          )}
+          {backupMessage && <p className="mt-3 text-xs text-primary">{backupMessage}</p>}
+        </section>
+      </div>
+    </div>
+  );
+};
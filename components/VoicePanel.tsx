@@ -0,0 +1,133 @@
+import React from 'react';
+import { TTSSettings } from '../types';
+import { availableLanguages, voicesForLanguage } from '../utils/tts';
+
+interface VoicePanelProps {
+  settings: TTSSettings;
+  voices: SpeechSynthesisVoice[];
+  characters: string[]; // Speakers found on the analyzed pages
+  onChange: (settings: TTSSettings) => void;
+  onClose: () => void;
+}
+
+const languageName = (code: string) => {
+  try {
+    return new Intl.DisplayNames([navigator.language], { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+const SLIDERS: { key: 'rate' | 'pitch' | 'volume', label: string, min: number, max: number }[] = [
+  { key: 'rate', label: 'Speed', min: 0.5, max: 2 },
+  { key: 'pitch', label: 'Pitch', min: 0, max: 2 },
+  { key: 'volume', label: 'Volume', min: 0, max: 1 },
+];
+
+export const VoicePanel: React.FC<VoicePanelProps> = ({ settings, voices, characters, onChange, onClose }) => {
+  const update = (changes: Partial<TTSSettings>) => onChange({ ...settings, ...changes });
+  const languageVoices = voicesForLanguage(voices, settings.lang);
+
+  // An empty voiceURI means "use the narrator", and stops the character being auto-assigned again
+  const setCharacterVoice = (character: string, voiceURI: string) =>
+    update({ characterVoices: { ...settings.characterVoices, [character]: voiceURI } });
+
+  const voiceSelect = (value: string | undefined, onSelect: (voiceURI: string) => void, emptyLabel: string) => (
+    <select
+      value={value || ''}
+      onChange={(e) => onSelect(e.target.value)}
+      className="w-44 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-sm"
+    >
+      <option value="" className="bg-reader-dark">{emptyLabel}</option>
+      {languageVoices.map(voice => (
+        <option key={voice.voiceURI} value={voice.voiceURI} className="bg-reader-dark">{voice.name}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/70 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto rounded-2xl bg-reader-dark border border-white/10 shadow-2xl p-6 text-white"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-semibold">Voice</h2>
+          <button onClick={onClose} className="size-10 flex items-center justify-center rounded-lg hover:bg-white/10 transition-colors" aria-label="Close voice settings">
+            <span className="material-symbols-outlined">close</span>
+          </button>
+        </div>
+
+        <section className="flex flex-col gap-3">
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>Language</span>
+            <select
+              value={settings.lang}
+              // Voices belong to a language, so picking another one resets them
+              onChange={(e) => update({ lang: e.target.value, voiceURI: undefined, characterVoices: {} })}
+              className="w-44 px-2 py-1 rounded-lg bg-white/5 border border-white/10 text-sm"
+            >
+              {availableLanguages(voices).map(code => (
+                <option key={code} value={code} className="bg-reader-dark">{languageName(code)}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>Narrator</span>
+            {voiceSelect(settings.voiceURI, voiceURI => update({ voiceURI: voiceURI || undefined }), 'Automatic')}
+          </label>
+
+          {SLIDERS.map(({ key, label, min, max }) => (
+            <label key={key} className="flex items-center justify-between gap-4 text-sm">
+              <span>{label}</span>
+              <span className="flex items-center gap-2">
+                <input
+                  type="range"
+                  min={min}
+                  max={max}
+                  step={0.05}
+                  value={settings[key]}
+                  onChange={(e) => update({ [key]: Number(e.target.value) })}
+                  className="w-32 accent-primary"
+                />
+                <span className="w-10 text-right text-xs text-white/50">{settings[key].toFixed(2)}</span>
+              </span>
+            </label>
+          ))}
+        </section>
+
+        {/* Per-character voices */}
+        <section className="mt-8">
+          <label className="flex items-center justify-between gap-4 text-sm">
+            <span>
+              Character voices
+              <span className="block text-xs text-white/50">Needs a provider that labels who is speaking (Gemini).</span>
+            </span>
+            <input
+              type="checkbox"
+              checked={settings.speakerVoices}
+              onChange={(e) => update({ speakerVoices: e.target.checked })}
+              className="size-4 accent-primary"
+            />
+          </label>
+
+          {settings.speakerVoices && (
+            characters.length === 0 ? (
+              <p className="mt-3 text-xs text-white/50">No speakers found yet. Analyze some pages first.</p>
+            ) : (
+              <ul className="mt-3 flex flex-col gap-2">
+                {characters.map(character => (
+                  <li key={character} className="flex items-center justify-between gap-4 text-sm">
+                    <span className="truncate">{character}</span>
+                    {voiceSelect(settings.characterVoices[character], voiceURI => setCharacterVoice(character, voiceURI), 'Narrator')}
+                  </li>
+                ))}
+              </ul>
+            )
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
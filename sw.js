@@ -0,0 +1,80 @@
+// Service worker: lets the installed app open and read the library offline.
+// This is a template; the build fills in PRECACHE below with the files it wrote and a version
+// derived from their contents, so every build gets its own cache and old ones are dropped.
+const PRECACHE = self.__PRECACHE__;
+const CACHE_PREFIX = 'mangalunar-';
+const CACHE_NAME = CACHE_PREFIX + PRECACHE.version;
+
+// Copied from public/ rather than built, so they're not in the build's file list
+const STATIC_FILES = ['/', '/manifest.webmanifest', '/icon.svg', '/icon-192.png', '/icon-512.png', '/icon-maskable-512.png'];
+
+// Styles, fonts and icons loaded from CDNs by index.html
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+const CDN_SCRIPTS = ['https://cdn.tailwindcss.com?plugins=forms,container-queries'];
+const CDN_STYLESHEETS = [
+  'https://fonts.googleapis.com/css2?family=Inter:wght@400;500;600;700&display=swap',
+  'https://fonts.googleapis.com/css2?family=Material+Symbols+Outlined:wght,FILL@100..700,0..1&display=swap',
+];
+
+// A stylesheet and the font files it points to
+const precacheStylesheet = async (cache, url) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`${response.status} for ${url}`);
+  const css = await response.clone().text();
+  await cache.put(url, response);
+  const fonts = Array.from(css.matchAll(/url\((['"]?)(https:[^'")]+)\1\)/g), match => match[2]);
+  await cache.addAll(fonts);
+};
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.addAll([...STATIC_FILES, ...PRECACHE.files]);
+    // The CDN files are cached when the page loads them anyway, so a failure here isn't fatal
+    await Promise.all([
+      // Loaded by a plain <script> tag, so the response is opaque and can't go through cache.add
+      ...CDN_SCRIPTS.map(async url => cache.put(url, await fetch(url, { mode: 'no-cors' }))),
+      ...CDN_STYLESHEETS.map(url => precacheStylesheet(cache, url)),
+    ]).catch(error => console.warn('[SW] Failed to precache CDN files', error));
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== CACHE_NAME)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// Cached first; anything fetched that wasn't precached is kept for next time
+const cacheFirst = async (request) => {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Pages come from the network when online, so a new build shows up; the cached shell otherwise
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(async () => (await caches.match('/')) || Response.error()));
+    return;
+  }
+
+  // Everything else (e.g. the vision provider APIs) goes straight to the network
+  if (url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
@@ -1,29 +1,207 @@
-export interface MangaItem {
+export type ReadingDirection = 'ltr' | 'rtl';
+
+// Page types as defined by the ComicInfo.xml schema
+export type PageType =
+  | 'FrontCover' | 'InnerCover' | 'Roundup' | 'Story' | 'Advertisement'
+  | 'Editorial' | 'Letters' | 'Preview' | 'BackCover' | 'Other' | 'Deleted';
+
+// Metadata read from an archive's ComicInfo.xml (all optional)
+export interface MangaMetadata {
+  series?: string;
+  volume?: number;
+  chapter?: number; // ComicInfo <Number>, may be fractional (e.g. 21.5)
+  writer?: string;
+  genres?: string[];
+  readingDirection?: ReadingDirection;
+  pageTypes?: PageType[]; // Indexed like pages
+  coverPage?: number; // Index of the page to use as cover
+}
+
+export interface MangaItem extends MangaMetadata {
   id: string;
   title: string;
   coverUrl: string;
-  pages: string[]; // Blob URLs
+  pageCount: number;
+  // Reads one page image. Pages are only loaded when needed (see utils/pageCache).
+  loadPage: (index: number) => Promise<Blob>;
+  loadThumbnail: (index: number) => Promise<Blob>; // Small WebP of a page (see utils/thumbnails)
+  pageHashes?: string[]; // SHA-256 of each page image, used to key the analysis cache
+}
+
+// Result of importing a file: the manga, reading pages straight from the opened archive
+export interface ImportedManga {
+  manga: MangaItem;
+  sidecar?: AnalysisExport; // Analysis and notes bundled by an annotated CBZ export
+  sourceHash?: string; // SHA-256 of the imported file (not set for image folders)
+  close: () => void; // Release the archive once its pages have been stored
 }
 
+// A folder of loose page images, imported as one manga
+export interface ImageFolder {
+  name: string;
+  files: File[];
+}
+
+// Something to import: an archive (or PDF) file, or a folder of images
+export type ImportSource = File | ImageFolder;
+
 export type ViewMode = 'library' | 'reader';
 
-export interface LibraryItem {
+export type PageLayout = 'single' | 'double' | 'scroll'; // scroll = vertical continuous strip (webtoons)
+
+export type FitMode = 'screen' | 'width' | 'height' | 'original';
+
+// Per-manga reader preferences, saved with the library entry
+export interface ReaderSettings {
+  direction?: ReadingDirection; // Overrides the ComicInfo reading direction
+  layout?: PageLayout;
+  shiftSpreads?: boolean; // Show the cover alone so later pages pair up correctly
+  fitMode?: FitMode;
+  tts?: TTSSettings;
+}
+
+// Read-aloud voice settings, saved per manga
+export interface TTSSettings {
+  lang: string; // Two-letter language code used to pick voices, e.g. 'en', 'ja'
+  voiceURI?: string; // Narrator voice; the best voice for `lang` when unset
+  rate: number;
+  pitch: number;
+  volume: number;
+  speakerVoices: boolean; // Read attributed bubbles with each character's own voice
+  characterVoices: Record<string, string>; // Character name -> voiceURI ('' = narrator voice)
+}
+
+// A bookmarked page, with an optional note
+export interface Bookmark {
+  id: string;
+  pageIndex: number;
+  note: string;
+  createdAt: number; // Epoch ms
+}
+
+// A highlight and comment on one speech bubble. The bubble's text and box are kept so the
+// annotation can be found again if the page is re-analyzed and the bubble order changes.
+export interface BubbleAnnotation {
+  id: string;
+  pageIndex: number;
+  bubbleText: string;
+  box_2d: [number, number, number, number];
+  comment: string;
+  createdAt: number; // Epoch ms
+}
+
+// A page to open the reader at, e.g. from a search hit
+export interface PageTarget {
+  pageIndex: number;
+  bubbleText?: string; // Highlight the bubble with this text
+  box_2d?: [number, number, number, number]; // Where it was found, for when the reader's own analysis doesn't have it
+}
+
+export interface LibraryItem extends MangaMetadata {
   id: string;
   title: string;
   coverUrl: string;
   isDemo?: boolean;
+  sourceHash?: string; // SHA-256 of the file it was imported from, to spot the same file imported twice
+  addedAt?: number; // Epoch ms
+  tags?: string[];
+  collectionIds?: string[]; // Collections this entry was added to
+  // Reading progress
+  totalPages?: number;
+  lastReadPage?: number; // 0-based page index
+  lastOpenedAt?: number; // Epoch ms
+  isFinished?: boolean;
+  readerSettings?: ReaderSettings;
+  bookmarks?: Bookmark[];
+  annotations?: BubbleAnnotation[];
+}
+
+// A user-made list of library entries. Entries list the collections they're in.
+export interface Collection {
+  id: string;
+  name: string;
 }
 
+export type LibrarySort = 'title' | 'added' | 'lastRead' | 'progress';
+
+export type ReadStatus = 'unread' | 'reading' | 'finished';
+
+// How the library grid is sorted and filtered, saved between sessions
+export interface LibraryView {
+  sort: LibrarySort;
+  status: ReadStatus | 'all';
+  tag: string | null;
+  collectionId: string | null;
+}
+
+export type ReadingProgress = Pick<LibraryItem, 'lastReadPage' | 'lastOpenedAt' | 'isFinished'>;
+
+// Fields of a library entry that can be changed after import
+export type LibraryItemChanges = Partial<Omit<LibraryItem, 'id' | 'coverUrl'>>;
+
 export interface SpeechBubble {
   text: string;
   box_2d: [number, number, number, number]; // ymin, xmin, ymax, xmax (0-1000 scale)
+  speaker?: string; // Character name, when the provider can tell who is speaking
 }
 
 export interface PageAnalysis {
   bubbles: SpeechBubble[];
+  status: 'queued' | 'loading' | 'complete' | 'error';
+  error?: string; // Why analysis failed, when status is 'error'
+}
+
+// Translations of a page's bubbles, aligned with PageAnalysis.bubbles
+export interface PageTranslation {
+  texts: string[];
   status: 'loading' | 'complete' | 'error';
+  error?: string;
 }
 
 export interface OCRCache {
   [pageIndex: number]: PageAnalysis;
-}
\ No newline at end of file
+}
+
+export type VisionProviderId = 'gemini' | 'tesseract' | 'fake';
+
+// A backend that detects speech bubbles and reads page text.
+// Both methods take page image URLs and return one result per page, in order.
+export interface VisionProvider {
+  id: VisionProviderId;
+  label: string;
+  description: string;
+  requiresNetwork: boolean;
+  cacheVersion: string; // Change whenever model or prompts change, so cached results are not reused
+  // Providers that upload pages prepare them at the given quality; local ones read them as they are
+  analyzePages: (imageUrls: string[], imageQuality: ImageQuality) => Promise<SpeechBubble[][]>;
+  extractPageText: (imageUrls: string[], imageQuality: ImageQuality) => Promise<string[]>;
+  // Translate bubble texts (one page, in reading order). Not every provider can translate.
+  translateTexts?: (texts: string[], targetLanguage: string) => Promise<string[]>;
+}
+
+// Analysis results and notes for one manga, as written by the JSON and annotated CBZ exports
+export interface AnalysisExport {
+  format: 'mangalunar-analysis';
+  version: 1;
+  title: string;
+  provider: VisionProviderId;
+  pages: {
+    index: number;
+    bubbles?: SpeechBubble[]; // Missing for pages that were never analyzed
+    text?: string; // OCR text, when extracted
+  }[];
+  bookmarks: Bookmark[];
+  annotations: BubbleAnnotation[];
+}
+
+// How page images are scaled and compressed before they're sent to a network provider
+export type ImageQuality = 'fast' | 'balanced' | 'detailed';
+
+// App-wide preferences, persisted in localStorage
+export interface AppSettings {
+  visionProvider: VisionProviderId;
+  analysisConcurrency: number; // Provider requests in flight at once
+  analysisRequestsPerMinute: number; // 0 = unlimited
+  translationLanguage: string; // Target language for translated bubbles, e.g. 'English'
+  imageQuality: ImageQuality;
+}
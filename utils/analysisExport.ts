@@ -0,0 +1,168 @@
+import JSZip from 'jszip';
+import { AnalysisExport, Bookmark, BubbleAnnotation, MangaItem, OCRCache, SpeechBubble, VisionProviderId } from '../types';
+import { buildComicInfo, pickMetadata } from './comicInfo';
+import { validateBubble } from './bubbleValidation';
+import { annotationsByBubble } from './annotations';
+
+// Exports of a manga's analysis: a Markdown transcript, the raw JSON, and an annotated CBZ.
+// The CBZ carries the JSON as a sidecar file so importing it again restores the analysis.
+
+export const SIDECAR_FILE = 'mangalunar.json';
+
+export const isSidecarFile = (path: string) => /(^|\/)mangalunar\.json$/i.test(path);
+
+// File extension for each page image type
+export const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+export const buildAnalysisExport = (
+  manga: MangaItem,
+  provider: VisionProviderId,
+  analysis: OCRCache,
+  ocrText: Record<number, string>,
+  bookmarks: Bookmark[],
+  annotations: BubbleAnnotation[],
+): AnalysisExport => ({
+  format: 'mangalunar-analysis',
+  version: 1,
+  title: manga.title,
+  provider,
+  pages: Array.from({ length: manga.pageCount }, (_, index) => ({
+    index,
+    bubbles: analysis[index]?.status === 'complete' ? analysis[index].bubbles : undefined,
+    text: ocrText[index],
+  })),
+  bookmarks,
+  annotations,
+});
+
+// Markdown transcript in reading order, with bookmark notes and bubble comments inline
+export const buildTranscript = (data: AnalysisExport): string => {
+  const lines = [`# ${data.title}`, ''];
+
+  data.pages.forEach(page => {
+    lines.push(`## Page ${page.index + 1}`, '');
+    data.bookmarks
+      .filter(bookmark => bookmark.pageIndex === page.index)
+      .forEach(bookmark => lines.push(`> 🔖 ${bookmark.note || 'Bookmarked'}`, ''));
+
+    if (page.bubbles && page.bubbles.length > 0) {
+      const comments = annotationsByBubble(page.bubbles, data.annotations, page.index);
+      page.bubbles.forEach((bubble, i) => {
+        lines.push(bubble.speaker ? `- **${bubble.speaker}:** ${bubble.text}` : `- ${bubble.text}`);
+        if (comments[i]?.comment) lines.push(`  > ${comments[i].comment}`);
+      });
+      lines.push('');
+    } else if (page.text?.trim()) {
+      lines.push(page.text.trim(), '');
+    } else {
+      lines.push(page.bubbles ? '_No text_' : '_Not analyzed_', '');
+    }
+  });
+
+  return lines.join('\n');
+};
+
+// The original page images, a ComicInfo.xml and the analysis sidecar
+export const buildAnnotatedCbz = async (manga: MangaItem, data: AnalysisExport): Promise<Blob> => {
+  const zip = new JSZip();
+  const digits = String(manga.pageCount).length;
+
+  for (let i = 0; i < manga.pageCount; i++) {
+    const blob = await manga.loadPage(i);
+    const extension = IMAGE_EXTENSIONS[blob.type] || 'jpg';
+    // Zero-padded names keep the page order when sorted by any reader
+    zip.file(`${String(i + 1).padStart(Math.max(digits, 3), '0')}.${extension}`, blob);
+  }
+
+  zip.file('ComicInfo.xml', buildComicInfo(manga.title, pickMetadata(manga), manga.pageCount));
+  zip.file(SIDECAR_FILE, JSON.stringify(data, null, 2));
+
+  // Images are already compressed
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.comicbook+zip', compression: 'STORE' });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+const validIndex = (value: unknown, pageCount: number): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < pageCount;
+
+// Bookmarks and annotations read from a file, e.g. a sidecar or a library backup.
+// Malformed ones and ones pointing past the last page are dropped.
+export const readBookmarks = (value: unknown, pageCount: number): Bookmark[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(isRecord)
+    .filter(bookmark => validIndex(bookmark.pageIndex, pageCount))
+    .map((bookmark): Bookmark => ({
+      id: typeof bookmark.id === 'string' ? bookmark.id : crypto.randomUUID(),
+      pageIndex: bookmark.pageIndex as number,
+      note: typeof bookmark.note === 'string' ? bookmark.note : '',
+      createdAt: typeof bookmark.createdAt === 'number' ? bookmark.createdAt : Date.now(),
+    }));
+
+export const readAnnotations = (value: unknown, pageCount: number): BubbleAnnotation[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(isRecord)
+    .filter(annotation => validIndex(annotation.pageIndex, pageCount))
+    .flatMap((annotation): BubbleAnnotation[] => {
+      const bubble = validateBubble({ text: annotation.bubbleText, box_2d: annotation.box_2d });
+      if (!bubble) return [];
+      return [{
+        id: typeof annotation.id === 'string' ? annotation.id : crypto.randomUUID(),
+        pageIndex: annotation.pageIndex as number,
+        bubbleText: bubble.text,
+        box_2d: bubble.box_2d,
+        comment: typeof annotation.comment === 'string' ? annotation.comment : '',
+        createdAt: typeof annotation.createdAt === 'number' ? annotation.createdAt : Date.now(),
+      }];
+    });
+
+// Read a sidecar from an imported archive. Anything malformed is dropped; returns null if unusable.
+export const parseSidecar = (json: string, pageCount: number): AnalysisExport | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    console.warn('[Import] Malformed analysis sidecar, ignoring');
+    return null;
+  }
+  if (!isRecord(parsed) || parsed.format !== 'mangalunar-analysis' || parsed.version !== 1) return null;
+
+  const pages = (Array.isArray(parsed.pages) ? parsed.pages : [])
+    .filter(isRecord)
+    .filter(page => validIndex(page.index, pageCount))
+    .map(page => ({
+      index: page.index as number,
+      bubbles: Array.isArray(page.bubbles)
+        ? page.bubbles.map(validateBubble).filter((b): b is SpeechBubble => b !== null)
+        : undefined,
+      text: typeof page.text === 'string' ? page.text : undefined,
+    }));
+
+  const bookmarks = readBookmarks(parsed.bookmarks, pageCount);
+  const annotations = readAnnotations(parsed.annotations, pageCount);
+
+  return {
+    format: 'mangalunar-analysis',
+    version: 1,
+    title: typeof parsed.title === 'string' ? parsed.title : '',
+    provider: parsed.provider as VisionProviderId,
+    pages,
+    bookmarks,
+    annotations,
+  };
+};
+
+// Save a generated file through a temporary download link
+export const downloadFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,42 @@
+import { BubbleAnnotation, SpeechBubble } from '../types';
+
+// Minimum overlap (intersection over union) for a re-analyzed bubble to count as the same one
+const MIN_BOX_OVERLAP = 0.5;
+
+const boxOverlap = (a: SpeechBubble['box_2d'], b: SpeechBubble['box_2d']) => {
+  const height = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const width = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  if (height <= 0 || width <= 0) return 0;
+  const intersection = height * width;
+  const area = (box: SpeechBubble['box_2d']) => (box[2] - box[0]) * (box[3] - box[1]);
+  return intersection / (area(a) + area(b) - intersection);
+};
+
+// Index of the bubble an annotation belongs to: same text, else the same place on the page. -1 if gone.
+export const annotatedBubbleIndex = (bubbles: SpeechBubble[], annotation: BubbleAnnotation) => {
+  const byText = bubbles.findIndex(bubble => bubble.text === annotation.bubbleText);
+  if (byText >= 0) return byText;
+
+  let best = -1;
+  let bestOverlap = MIN_BOX_OVERLAP;
+  bubbles.forEach((bubble, i) => {
+    const overlap = boxOverlap(bubble.box_2d, annotation.box_2d);
+    if (overlap >= bestOverlap) {
+      best = i;
+      bestOverlap = overlap;
+    }
+  });
+  return best;
+};
+
+// Annotations of one page, keyed by bubble index
+export const annotationsByBubble = (bubbles: SpeechBubble[], annotations: BubbleAnnotation[], pageIndex: number) => {
+  const byBubble: Record<number, BubbleAnnotation> = {};
+  annotations
+    .filter(annotation => annotation.pageIndex === pageIndex)
+    .forEach(annotation => {
+      const index = annotatedBubbleIndex(bubbles, annotation);
+      if (index >= 0) byBubble[index] = annotation;
+    });
+  return byBubble;
+};
@@ -0,0 +1,322 @@
+import JSZip from 'jszip';
+import { AppSettings, Collection, FitMode, LibraryItemChanges, PageLayout, ReaderSettings, ReadingDirection, TTSSettings } from '../types';
+import {
+  LibraryRecord, StoredAnalysis, getAllCachedAnalysis, getLibraryRecords, loadStoredPage, restoreCachedAnalysis,
+  saveManga, updateLibraryItem,
+} from './storage';
+import { IMAGE_EXTENSIONS, readAnnotations, readBookmarks } from './analysisExport';
+import { PAGE_TYPES } from './comicInfo';
+import { findDuplicate } from './duplicates';
+import { loadCollections, saveCollections } from './libraryView';
+import { TRANSLATION_LANGUAGES, loadSettings, mergeSettings, saveSettings } from './settings';
+import { VISION_PROVIDERS } from './visionProviders';
+import { IMAGE_QUALITY_PROFILES } from './imageEncoding';
+
+// The whole library in one ZIP, to move it to another browser or device: backup.json holds every
+// entry's metadata, progress, notes and tags, the collections, the settings and the cached analysis;
+// the page images follow under pages/<id>/, unless the backup is metadata only.
+
+const BACKUP_FILE = 'backup.json';
+export const BACKUP_VERSION = 1;
+
+interface BackupEntry extends LibraryRecord {
+  pageFiles?: string[]; // Paths of the page images in the archive, in reading order
+}
+
+interface LibraryBackup {
+  format: 'mangalunar-backup';
+  version: number;
+  createdAt: number; // Epoch ms
+  settings: Partial<AppSettings>;
+  collections: Collection[];
+  entries: BackupEntry[];
+  analysis: StoredAnalysis[];
+}
+
+export interface RestoreSummary {
+  added: number; // Entries restored with their pages
+  merged: number; // Entries already here, updated with the backup's progress, notes and tags
+  skipped: number; // Entries not here whose pages aren't in the backup
+  analysis: number; // Cached results added
+}
+
+const typeForPath = (path: string) => {
+  const extension = path.split('.').pop()!.toLowerCase();
+  return Object.keys(IMAGE_EXTENSIONS).find(type => IMAGE_EXTENSIONS[type] === extension) || '';
+};
+
+export const exportLibrary = async (includePages: boolean, onProgress?: (fraction: number) => void): Promise<Blob> => {
+  const zip = new JSZip();
+  const records = await getLibraryRecords();
+  const pageTotal = includePages ? records.reduce((sum, record) => sum + (record.totalPages || 0), 0) : 0;
+  let pagesDone = 0;
+
+  const entries: BackupEntry[] = [];
+  for (const record of records) {
+    if (!includePages) {
+      entries.push(record);
+      continue;
+    }
+    const pageFiles: string[] = [];
+    for (let index = 0; index < (record.totalPages || 0); index++) {
+      const blob = await loadStoredPage(record.id, index);
+      const path = `pages/${record.id}/${String(index + 1).padStart(4, '0')}.${IMAGE_EXTENSIONS[blob.type] || 'jpg'}`;
+      zip.file(path, blob);
+      pageFiles.push(path);
+      onProgress?.(++pagesDone / pageTotal);
+    }
+    entries.push({ ...record, pageFiles });
+  }
+
+  const backup: LibraryBackup = {
+    format: 'mangalunar-backup',
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    settings: loadSettings(),
+    collections: loadCollections(),
+    entries,
+    analysis: await getAllCachedAnalysis(),
+  };
+  zip.file(BACKUP_FILE, JSON.stringify(backup));
+
+  // Images are already compressed
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip', compression: 'STORE' });
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object';
+
+// Only the settings this app can use; anything unknown or out of range is left to the defaults
+const readSettings = (value: unknown): Partial<AppSettings> => {
+  if (!isRecord(value)) return {};
+  const settings: Partial<AppSettings> = {};
+  const { visionProvider, analysisConcurrency, analysisRequestsPerMinute, translationLanguage, imageQuality } = value;
+  if (typeof visionProvider === 'string' && Object.hasOwn(VISION_PROVIDERS, visionProvider)) {
+    settings.visionProvider = visionProvider as AppSettings['visionProvider'];
+  }
+  // The same ranges the settings panel allows
+  if (typeof analysisConcurrency === 'number' && Number.isInteger(analysisConcurrency) && analysisConcurrency >= 1 && analysisConcurrency <= 8) {
+    settings.analysisConcurrency = analysisConcurrency;
+  }
+  if (typeof analysisRequestsPerMinute === 'number' && Number.isInteger(analysisRequestsPerMinute) && analysisRequestsPerMinute >= 0) {
+    settings.analysisRequestsPerMinute = analysisRequestsPerMinute;
+  }
+  if (typeof translationLanguage === 'string' && TRANSLATION_LANGUAGES.includes(translationLanguage)) {
+    settings.translationLanguage = translationLanguage;
+  }
+  if (typeof imageQuality === 'string' && Object.hasOwn(IMAGE_QUALITY_PROFILES, imageQuality)) {
+    settings.imageQuality = imageQuality as AppSettings['imageQuality'];
+  }
+  return settings;
+};
+
+const string = (value: unknown) => typeof value === 'string' ? value : undefined;
+const number = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const boolean = (value: unknown) => typeof value === 'boolean' ? value : undefined;
+const oneOf = <T extends string>(value: unknown, allowed: readonly T[]) =>
+  allowed.includes(value as T) ? value as T : undefined;
+const index = (value: unknown, pageCount: number) =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < pageCount ? value as number : undefined;
+// Lists that are indexed like pages are all or nothing; others just lose their bad items
+const stringList = (value: unknown) =>
+  Array.isArray(value) && value.every(item => typeof item === 'string') ? value as string[] : undefined;
+const strings = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : undefined;
+
+const DIRECTIONS: ReadingDirection[] = ['ltr', 'rtl'];
+const LAYOUTS: PageLayout[] = ['single', 'double', 'scroll'];
+const FIT_MODES: FitMode[] = ['screen', 'width', 'height', 'original'];
+
+const readTTSSettings = (value: unknown): TTSSettings | undefined => {
+  if (!isRecord(value)) return undefined;
+  const { lang, voiceURI, rate, pitch, volume, speakerVoices, characterVoices } = value;
+  if (typeof lang !== 'string' || number(rate) === undefined || number(pitch) === undefined || number(volume) === undefined) {
+    return undefined;
+  }
+  return {
+    lang,
+    voiceURI: string(voiceURI),
+    rate: rate as number,
+    pitch: pitch as number,
+    volume: volume as number,
+    speakerVoices: speakerVoices === true,
+    characterVoices: isRecord(characterVoices)
+      ? Object.fromEntries(Object.entries(characterVoices).filter(([, voice]) => typeof voice === 'string')) as Record<string, string>
+      : {},
+  };
+};
+
+const readReaderSettings = (value: unknown): ReaderSettings | undefined => {
+  if (!isRecord(value)) return undefined;
+  return {
+    direction: oneOf(value.direction, DIRECTIONS),
+    layout: oneOf(value.layout, LAYOUTS),
+    shiftSpreads: boolean(value.shiftSpreads),
+    fitMode: oneOf(value.fitMode, FIT_MODES),
+    tts: readTTSSettings(value.tts),
+  };
+};
+
+// One library entry, field by field; anything malformed is left out. Null without an id and title.
+const readEntry = (value: Record<string, unknown>): BackupEntry | null => {
+  const id = string(value.id);
+  const title = string(value.title);
+  if (!id || !title) return null;
+
+  const pageFiles = stringList(value.pageFiles);
+  const pageHashes = stringList(value.pageHashes);
+  const totalPages = index(value.totalPages, Infinity);
+  // Page indexes are checked against the page count, when the entry says what it is
+  const pageCount = pageFiles?.length || totalPages || pageHashes?.length || Infinity;
+
+  return {
+    id,
+    title,
+    isDemo: boolean(value.isDemo),
+    sourceHash: string(value.sourceHash),
+    addedAt: number(value.addedAt),
+    tags: strings(value.tags),
+    collectionIds: strings(value.collectionIds),
+    totalPages,
+    lastReadPage: index(value.lastReadPage, pageCount),
+    lastOpenedAt: number(value.lastOpenedAt),
+    isFinished: boolean(value.isFinished),
+    readerSettings: readReaderSettings(value.readerSettings),
+    bookmarks: readBookmarks(value.bookmarks, pageCount),
+    annotations: readAnnotations(value.annotations, pageCount),
+    series: string(value.series),
+    volume: number(value.volume),
+    chapter: number(value.chapter),
+    writer: string(value.writer),
+    genres: strings(value.genres),
+    readingDirection: oneOf(value.readingDirection, DIRECTIONS),
+    pageTypes: Array.isArray(value.pageTypes) && value.pageTypes.every(type => PAGE_TYPES.includes(type))
+      ? value.pageTypes
+      : undefined,
+    coverPage: index(value.coverPage, pageCount),
+    pageHashes,
+    pageFiles,
+  };
+};
+
+const readBackup = async (file: Blob): Promise<{ zip: JSZip, backup: LibraryBackup }> => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error('This file is not a library backup.');
+  }
+  const json = zip.file(BACKUP_FILE);
+  if (!json) throw new Error('This file is not a library backup.');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await json.async('string'));
+  } catch {
+    throw new Error('This library backup is damaged.');
+  }
+  if (!isRecord(parsed) || parsed.format !== 'mangalunar-backup' || typeof parsed.version !== 'number') {
+    throw new Error('This file is not a library backup.');
+  }
+  if (parsed.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update it and try again.');
+  }
+
+  // Entries and results missing the fields they're identified by are dropped
+  const list = (value: unknown) => Array.isArray(value) ? value.filter(isRecord) : [];
+  return {
+    zip,
+    backup: {
+      format: 'mangalunar-backup',
+      version: parsed.version,
+      createdAt: typeof parsed.createdAt === 'number' ? parsed.createdAt : 0,
+      settings: readSettings(parsed.settings),
+      collections: list(parsed.collections)
+        .flatMap(c => typeof c.id === 'string' && typeof c.name === 'string' ? [{ id: c.id, name: c.name }] : []),
+      entries: list(parsed.entries)
+        .map(readEntry)
+        .filter((entry): entry is BackupEntry => entry !== null),
+      analysis: list(parsed.analysis)
+        .filter(record => typeof record.key === 'string' && typeof record.hash === 'string') as unknown as StoredAnalysis[],
+    },
+  };
+};
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+const unionById = <T extends { id: string }>(a: T[] = [], b: T[] = []) =>
+  [...a, ...b.filter(item => !a.some(existing => existing.id === item.id))];
+
+// The backup's progress wins if it was read more recently; notes, tags and collections are combined
+const mergeUserData = (local: LibraryRecord, incoming: LibraryRecord): LibraryItemChanges => {
+  const incomingIsNewer = (incoming.lastOpenedAt || 0) > (local.lastOpenedAt || 0);
+  return {
+    lastReadPage: incomingIsNewer ? incoming.lastReadPage ?? local.lastReadPage : local.lastReadPage ?? incoming.lastReadPage,
+    lastOpenedAt: incomingIsNewer ? incoming.lastOpenedAt : local.lastOpenedAt,
+    isFinished: local.isFinished || incoming.isFinished,
+    readerSettings: local.readerSettings ?? incoming.readerSettings,
+    tags: union(local.tags, incoming.tags),
+    collectionIds: union(local.collectionIds, incoming.collectionIds),
+    bookmarks: unionById(local.bookmarks, incoming.bookmarks),
+    annotations: unionById(local.annotations, incoming.annotations),
+  };
+};
+
+// The same manga in this library: same id, or the same file or pages
+const findLocal = (entry: LibraryRecord, records: LibraryRecord[]) => {
+  const byId = records.find(record => record.id === entry.id);
+  if (byId) return byId;
+  const match = findDuplicate(entry.sourceHash, entry.pageHashes || [], records);
+  return match?.exact ? match.record : undefined;
+};
+
+// Merge a backup into this library. Entries already here (same id, file or pages) get the backup's
+// progress and notes merged in; others are added if the backup has their pages. Collections are
+// matched by name and cached results already here are kept.
+export const restoreLibrary = async (file: Blob, onProgress?: (fraction: number) => void): Promise<RestoreSummary> => {
+  const { zip, backup } = await readBackup(file);
+  const summary: RestoreSummary = { added: 0, merged: 0, skipped: 0, analysis: 0 };
+
+  const collections = loadCollections();
+  const collectionIds = new Map<string, string>();
+  backup.collections.forEach(collection => {
+    const existing = collections.find(c => c.name.toLowerCase() === collection.name.toLowerCase());
+    if (existing) {
+      collectionIds.set(collection.id, existing.id);
+      return;
+    }
+    const id = collections.some(c => c.id === collection.id) ? crypto.randomUUID() : collection.id;
+    collections.push({ id, name: collection.name });
+    collectionIds.set(collection.id, id);
+  });
+  saveCollections(collections);
+  saveSettings(mergeSettings(backup.settings));
+
+  const records = await getLibraryRecords();
+  for (const [entryIndex, backupEntry] of backup.entries.entries()) {
+    const reportPages = (fraction: number) => onProgress?.((entryIndex + fraction) / backup.entries.length);
+    const { pageFiles, ...entry } = {
+      ...backupEntry,
+      collectionIds: backupEntry.collectionIds?.flatMap(id => collectionIds.has(id) ? [collectionIds.get(id)!] : []),
+    };
+
+    const local = findLocal(entry, records);
+    if (local) {
+      await updateLibraryItem(local.id, mergeUserData(local, entry));
+      summary.merged++;
+    } else if (pageFiles?.length && pageFiles.every(path => zip.file(path))) {
+      await saveManga(entry, {
+        pageCount: pageFiles.length,
+        loadPage: async (index) => new Blob([await zip.file(pageFiles[index])!.async('uint8array')], { type: typeForPath(pageFiles[index]) }),
+        pageHashes: entry.pageHashes?.length === pageFiles.length ? entry.pageHashes : undefined,
+      }, reportPages);
+      records.push(entry);
+      summary.added++;
+    } else {
+      summary.skipped++;
+    }
+    reportPages(1);
+  }
+
+  summary.analysis = await restoreCachedAnalysis(backup.analysis);
+  return summary;
+};
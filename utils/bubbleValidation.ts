@@ -0,0 +1,70 @@
+import { SpeechBubble } from '../types';
+
+export type AnalysisErrorReason = 'empty_response' | 'invalid_json' | 'invalid_schema' | 'page_count';
+
+// The model answered, but not with something we can use
+export class AnalysisResponseError extends Error {
+  readonly reason: AnalysisErrorReason;
+
+  constructor(reason: AnalysisErrorReason, message: string) {
+    super(message);
+    this.name = 'AnalysisResponseError';
+    this.reason = reason;
+  }
+}
+
+// The model returned results for a different number of pages than it was sent,
+// so there's no safe way to tell which result belongs to which page
+export class PageCountMismatchError extends AnalysisResponseError {
+  readonly expected: number;
+  readonly received: number;
+
+  constructor(expected: number, received: number) {
+    super('page_count', `Expected results for ${expected} pages, got ${received}`);
+    this.name = 'PageCountMismatchError';
+    this.expected = expected;
+    this.received = received;
+  }
+}
+
+const isValidBox = (box: unknown): box is SpeechBubble['box_2d'] => {
+  if (!Array.isArray(box) || box.length !== 4) return false;
+  if (!box.every(v => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 1000)) return false;
+  const [ymin, xmin, ymax, xmax] = box;
+  return ymin < ymax && xmin < xmax;
+};
+
+// Check a single bubble from an untrusted response. Returns null if it's unusable.
+export const validateBubble = (value: unknown): SpeechBubble | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { text, box_2d, speaker } = value as Record<string, unknown>;
+  if (typeof text !== 'string' || text.trim().length === 0) return null;
+  if (!isValidBox(box_2d)) return null;
+  const bubble: SpeechBubble = { text: text.trim(), box_2d: [box_2d[0], box_2d[1], box_2d[2], box_2d[3]] };
+  // Speaker is optional; an empty or non-string value just means "unknown"
+  if (typeof speaker === 'string' && speaker.trim()) bubble.speaker = speaker.trim();
+  return bubble;
+};
+
+// Validate a whole response: one { bubbles: [...] } entry per page, in order.
+// Individual malformed bubbles are dropped; a malformed page or a wrong page count throws.
+export const validatePageResults = (parsed: unknown, expectedPages: number): SpeechBubble[][] => {
+  if (!Array.isArray(parsed)) {
+    throw new AnalysisResponseError('invalid_schema', 'Response is not an array of page results');
+  }
+  if (parsed.length !== expectedPages) {
+    throw new PageCountMismatchError(expectedPages, parsed.length);
+  }
+
+  return parsed.map((page, pageIndex) => {
+    const bubbles = (page as { bubbles?: unknown } | null)?.bubbles;
+    if (!Array.isArray(bubbles)) {
+      throw new AnalysisResponseError('invalid_schema', `Page ${pageIndex + 1} has no bubbles array`);
+    }
+    const valid = bubbles.map(validateBubble).filter((b): b is SpeechBubble => b !== null);
+    if (valid.length < bubbles.length) {
+      console.warn(`[Analysis] Dropped ${bubbles.length - valid.length} invalid bubbles on page ${pageIndex + 1}`);
+    }
+    return valid;
+  });
+};
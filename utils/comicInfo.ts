@@ -0,0 +1,112 @@
+import { MangaMetadata, PageType } from '../types';
+
+export const PAGE_TYPES: PageType[] = [
+  'FrontCover', 'InnerCover', 'Roundup', 'Story', 'Advertisement',
+  'Editorial', 'Letters', 'Preview', 'BackCover', 'Other', 'Deleted',
+];
+
+const METADATA_KEYS: (keyof MangaMetadata)[] = [
+  'series', 'volume', 'chapter', 'writer', 'genres', 'readingDirection', 'pageTypes', 'coverPage',
+];
+
+// Copy only the metadata fields off a manga or library item
+export const pickMetadata = (source: MangaMetadata): MangaMetadata => {
+  const metadata: MangaMetadata = {};
+  const copy = <K extends keyof MangaMetadata>(key: K) => {
+    if (source[key] !== undefined) metadata[key] = source[key];
+  };
+  METADATA_KEYS.forEach(copy);
+  return metadata;
+};
+
+export const isComicInfoFile = (path: string) => /(^|\/)ComicInfo\.xml$/i.test(path);
+
+// Parse a ComicInfo.xml document (Anansi schema v2.0).
+// pageCount is used to drop <Page> entries that point past the last image.
+export const parseComicInfo = (xml: string, pageCount: number): MangaMetadata => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    console.warn('[ComicInfo] Malformed ComicInfo.xml, ignoring');
+    return {};
+  }
+
+  const root = doc.documentElement;
+  const text = (tag: string) => {
+    const value = root.getElementsByTagName(tag)[0]?.textContent?.trim();
+    return value ? value : undefined;
+  };
+  const number = (tag: string) => {
+    const value = parseFloat(text(tag) || '');
+    return Number.isFinite(value) ? value : undefined;
+  };
+
+  const metadata: MangaMetadata = {
+    series: text('Series'),
+    volume: number('Volume'),
+    chapter: number('Number'),
+    writer: text('Writer'),
+  };
+
+  const genres = text('Genre')?.split(',').map(g => g.trim()).filter(Boolean);
+  if (genres && genres.length > 0) metadata.genres = genres;
+
+  const manga = text('Manga');
+  if (manga === 'YesAndRightToLeft') metadata.readingDirection = 'rtl';
+  else if (manga === 'No') metadata.readingDirection = 'ltr';
+
+  // <Pages><Page Image="0" Type="FrontCover" /></Pages>
+  const pageElements = Array.from(root.getElementsByTagName('Page'));
+  if (pageElements.length > 0) {
+    const pageTypes: PageType[] = new Array(pageCount).fill('Story');
+    pageElements.forEach(page => {
+      const index = parseInt(page.getAttribute('Image') || '', 10);
+      const type = page.getAttribute('Type') as PageType | null;
+      if (index >= 0 && index < pageCount && type && PAGE_TYPES.includes(type)) {
+        pageTypes[index] = type;
+      }
+    });
+    metadata.pageTypes = pageTypes;
+
+    const coverPage = pageTypes.indexOf('FrontCover');
+    if (coverPage >= 0) metadata.coverPage = coverPage;
+  }
+
+  return pickMetadata(metadata);
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Write a ComicInfo.xml document for an export; the inverse of parseComicInfo
+export const buildComicInfo = (title: string, metadata: MangaMetadata, pageCount: number): string => {
+  const fields: [string, string | number | undefined][] = [
+    ['Title', title],
+    ['Series', metadata.series],
+    ['Number', metadata.chapter],
+    ['Volume', metadata.volume],
+    ['Writer', metadata.writer],
+    ['Genre', metadata.genres?.join(', ')],
+    ['PageCount', pageCount],
+    ['Manga', metadata.readingDirection === 'rtl' ? 'YesAndRightToLeft' : metadata.readingDirection === 'ltr' ? 'No' : undefined],
+  ];
+  const lines = fields
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([tag, value]) => `  <${tag}>${escapeXml(String(value))}</${tag}>`);
+
+  const pageTypes = metadata.pageTypes || (metadata.coverPage !== undefined ? new Array(pageCount).fill('Story') : undefined);
+  if (pageTypes) {
+    const types = [...pageTypes];
+    if (metadata.coverPage !== undefined) types[metadata.coverPage] = 'FrontCover';
+    lines.push('  <Pages>');
+    types.forEach((type, index) => lines.push(`    <Page Image="${index}" Type="${type}" />`));
+    lines.push('  </Pages>');
+  }
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">',
+    ...lines,
+    '</ComicInfo>',
+    '',
+  ].join('\n');
+};
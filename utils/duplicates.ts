@@ -0,0 +1,71 @@
+import { LibraryItemChanges } from '../types';
+import type { LibraryRecord } from './storage';
+
+// Spotting an import that's already in the library: the same file (by file hash, or by identical
+// pages), or a near copy such as a re-release with an extra credits page.
+
+// Share of pages two chapters must have in common to be flagged as near copies
+export const SIMILAR_PAGES_THRESHOLD = 0.8;
+
+export interface DuplicateMatch {
+  record: LibraryRecord;
+  exact: boolean; // Same file, or exactly the same pages
+  sharedPages: number;
+}
+
+export type DuplicateChoice = 'skip' | 'replace' | 'keep';
+
+const samePages = (a: string[], b: string[]) => a.length === b.length && a.every((hash, i) => hash === b[i]);
+
+// The closest existing entry, if any is an exact or near copy
+export const findDuplicate = (sourceHash: string | undefined, pageHashes: string[], records: LibraryRecord[]): DuplicateMatch | null => {
+  const pages = new Set(pageHashes);
+  let best: DuplicateMatch | null = null;
+  let bestShare = 0;
+
+  for (const record of records) {
+    const existing = record.pageHashes || [];
+    if ((sourceHash && record.sourceHash === sourceHash) || (existing.length > 0 && samePages(existing, pageHashes))) {
+      return { record, exact: true, sharedPages: pageHashes.length };
+    }
+
+    const existingPages = new Set(existing);
+    const sharedPages = Array.from(pages).filter(hash => existingPages.has(hash)).length;
+    // Relative to the larger of the two, so a short chapter isn't a copy of a volume containing it
+    const share = sharedPages / Math.max(pages.size, existingPages.size, 1);
+    if (share >= SIMILAR_PAGES_THRESHOLD && share > bestShare) {
+      best = { record, exact: false, sharedPages };
+      bestShare = share;
+    }
+  }
+  return best;
+};
+
+// Reading progress, notes, tags and collections of a replaced entry. Progress and notes are
+// moved to the pages with the same image in the new one; notes on pages that are gone are dropped.
+export const carryOverUserData = (record: LibraryRecord, pageHashes: string[]): LibraryItemChanges => {
+  const oldHashes = record.pageHashes || [];
+  const newIndex = (pageIndex: number) => {
+    const hash = oldHashes[pageIndex];
+    return hash ? pageHashes.indexOf(hash) : -1;
+  };
+
+  const lastReadPage = record.lastReadPage === undefined ? undefined
+    : newIndex(record.lastReadPage) >= 0 ? newIndex(record.lastReadPage)
+    : Math.min(record.lastReadPage, pageHashes.length - 1);
+
+  return {
+    lastReadPage,
+    lastOpenedAt: record.lastOpenedAt,
+    isFinished: record.isFinished,
+    readerSettings: record.readerSettings,
+    tags: record.tags,
+    collectionIds: record.collectionIds,
+    bookmarks: record.bookmarks
+      ?.map(bookmark => ({ ...bookmark, pageIndex: newIndex(bookmark.pageIndex) }))
+      .filter(bookmark => bookmark.pageIndex >= 0),
+    annotations: record.annotations
+      ?.map(annotation => ({ ...annotation, pageIndex: newIndex(annotation.pageIndex) }))
+      .filter(annotation => annotation.pageIndex >= 0),
+  };
+};
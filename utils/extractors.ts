@@ -0,0 +1,210 @@
+import JSZip from 'jszip';
+import sevenZipWasmUrl from '7z-wasm/7zz.wasm?url';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { isComicInfoFile } from './comicInfo';
+import { isSidecarFile } from './analysisExport';
+
+// An opened archive. Only the list of pages is read up front; each page image is
+// inflated (or rendered, for PDFs) when loadPage asks for it.
+export interface ExtractedArchive {
+  pageCount: number;
+  loadPage: (index: number) => Promise<Blob>;
+  close: () => void; // Free whatever the archive holds on to (e.g. the PDF document)
+  comicInfoXml?: string; // Raw ComicInfo.xml, if the archive has one
+  sidecarJson?: string; // Analysis sidecar written by an annotated CBZ export
+}
+
+export const IMAGE_EXTENSION = /\.(jpg|jpeg|png|webp|gif)$/i;
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const mimeTypeFor = (name: string) => MIME_TYPES[name.split('.').pop()!.toLowerCase()] || '';
+
+// Sort alphanumerically to ensure correct page order
+// Using 'numeric' collation handles "1.jpg", "2.jpg", "10.jpg" correctly
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+const sortNames = (names: string[]) => names.sort(byName);
+
+// PDF pages are rendered at this width (in px) regardless of the page size
+const PDF_RENDER_WIDTH = 1600;
+
+// Only the central directory is parsed here; entries are inflated one at a time
+export const extractZip = async (data: ArrayBuffer): Promise<ExtractedArchive> => {
+  const zip = new JSZip();
+  const zipContent = await zip.loadAsync(data);
+
+  // Filter out directories and non-image files (basic check)
+  const entries = sortNames(Object.keys(zipContent.files).filter((filename) => {
+    return !zipContent.files[filename].dir && IMAGE_EXTENSION.test(filename);
+  }));
+
+  const comicInfoEntry = Object.keys(zipContent.files).find(isComicInfoFile);
+  const comicInfoXml = comicInfoEntry ? await zipContent.files[comicInfoEntry].async('string') : undefined;
+  const sidecarEntry = Object.keys(zipContent.files).find(isSidecarFile);
+  const sidecarJson = sidecarEntry ? await zipContent.files[sidecarEntry].async('string') : undefined;
+
+  return {
+    pageCount: entries.length,
+    loadPage: async (index) => {
+      const filename = entries[index];
+      const data = await zipContent.files[filename].async('uint8array');
+      return new Blob([data], { type: mimeTypeFor(filename) });
+    },
+    close: () => { /* Nothing to free beyond the zip object itself */ },
+    comicInfoXml,
+    sidecarJson,
+  };
+};
+
+// RAR and 7z archives both go through the 7-Zip WASM build. One module instance per archive
+// keeps the archive in its in-memory file system; only the listing is read up front, and each
+// page is extracted on its own when asked for, then removed again.
+const extractWith7Zip = async (data: ArrayBuffer): Promise<ExtractedArchive> => {
+  const { default: SevenZip } = await import('7z-wasm');
+  let log: string[] = [];
+  let sevenZip: Awaited<ReturnType<typeof SevenZip>> | null = await SevenZip({
+    locateFile: () => sevenZipWasmUrl,
+    print: (line) => log.push(line),
+    printErr: (line) => log.push(line),
+  });
+
+  const archivePath = '/archive';
+  const outputDir = '/out';
+
+  // Dropping the module lets its memory, archive included, be collected
+  const close = () => {
+    try {
+      sevenZip?.FS.unlink(archivePath);
+    } catch {
+      // Never written, e.g. out of memory
+    }
+    sevenZip = null;
+  };
+
+  // Runs one 7-Zip command and returns what it printed
+  const run = (args: string[]) => {
+    if (!sevenZip) throw new Error('The archive is closed');
+    log = [];
+    sevenZip.callMain(args);
+    return log;
+  };
+  const errorIn = (lines: string[]) => lines.filter(line => /error/i.test(line)).join(' ');
+
+  // -spd: names are taken literally, so [ ] * ? in file names aren't wildcards
+  const readEntry = (entry: string) => {
+    const output = run(['x', archivePath, `-o${outputDir}`, '-y', '-spd', '--', entry]);
+    const extracted = `${outputDir}/${entry}`;
+    let bytes: Uint8Array;
+    try {
+      bytes = sevenZip!.FS.readFile(extracted);
+    } catch {
+      throw new Error(errorIn(output) || `Failed to extract ${entry}`);
+    }
+    sevenZip!.FS.unlink(extracted);
+    return bytes;
+  };
+  const readText = (entry: string) => new TextDecoder().decode(readEntry(entry));
+
+  try {
+    sevenZip.FS.writeFile(archivePath, new Uint8Array(data));
+    sevenZip.FS.mkdir(outputDir);
+
+    // Technical listing: one "Key = value" block per entry after the ---------- line
+    const listing = run(['l', '-slt', archivePath]);
+    const separator = listing.indexOf('----------');
+    if (separator < 0) throw new Error(errorIn(listing) || 'Failed to read the archive');
+    const files: string[] = [];
+    let path: string | undefined;
+    let isDir = false;
+    for (const line of [...listing.slice(separator + 1), '']) {
+      if (line.trim() === '') {
+        if (path !== undefined && !isDir) files.push(path);
+        path = undefined;
+        isDir = false;
+      } else if (line.startsWith('Path = ')) {
+        path = line.slice('Path = '.length);
+      } else if (line.startsWith('Folder = +') || line.startsWith('Attributes = D')) {
+        isDir = true;
+      }
+    }
+    const pagePaths = sortNames(files.filter(path => IMAGE_EXTENSION.test(path)));
+
+    const comicInfoPath = files.find(isComicInfoFile);
+    const sidecarPath = files.find(isSidecarFile);
+
+    return {
+      pageCount: pagePaths.length,
+      loadPage: async (index) => new Blob([readEntry(pagePaths[index])], { type: mimeTypeFor(pagePaths[index]) }),
+      close,
+      comicInfoXml: comicInfoPath ? readText(comicInfoPath) : undefined,
+      sidecarJson: sidecarPath ? readText(sidecarPath) : undefined,
+    };
+  } catch (error) {
+    close();
+    throw error;
+  }
+};
+
+export const extractRar = extractWith7Zip;
+export const extract7z = extractWith7Zip;
+
+// Pages are rasterized to JPEG one at a time, when asked for
+export const extractPdf = async (data: ArrayBuffer): Promise<ExtractedArchive> => {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+
+  const loadPage = async (index: number) => {
+    const pageNumber = index + 1;
+    const page = await pdf.getPage(pageNumber);
+    const baseViewport = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: PDF_RENDER_WIDTH / baseViewport.width });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+    page.cleanup();
+
+    return new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(b => b ? resolve(b) : reject(new Error(`Failed to render PDF page ${pageNumber}`)), 'image/jpeg', 0.9);
+    });
+  };
+
+  return {
+    pageCount: pdf.numPages,
+    loadPage,
+    close: () => { pdf.destroy(); },
+  };
+};
+
+// Loose images picked or dropped as a folder. Files without a type get one from their extension.
+export const extractFolder = async (files: File[]): Promise<ExtractedArchive> => {
+  const pages = files
+    .filter(file => IMAGE_EXTENSION.test(file.name))
+    .sort((a, b) => byName(a.name, b.name));
+
+  const comicInfoFile = files.find(file => isComicInfoFile(file.name));
+  const sidecarFile = files.find(file => isSidecarFile(file.name));
+
+  return {
+    pageCount: pages.length,
+    loadPage: async (index) => {
+      const file = pages[index];
+      return file.type ? file : file.slice(0, file.size, mimeTypeFor(file.name));
+    },
+    close: () => { /* Files are read from disk */ },
+    comicInfoXml: comicInfoFile ? await comicInfoFile.text() : undefined,
+    sidecarJson: sidecarFile ? await sidecarFile.text() : undefined,
+  };
+};
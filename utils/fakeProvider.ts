@@ -0,0 +1,20 @@
+import { SpeechBubble, VisionProvider } from '../types';
+
+// Deterministic provider for tests and UI work: no network, no model, instant results.
+// Every page gets the same two bubbles, labelled with the page's position in the request.
+const fakeBubbles = (pageNumber: number): SpeechBubble[] => [
+  { text: `Page ${pageNumber}, bubble 1.`, box_2d: [80, 560, 260, 900], speaker: 'Aki' },
+  { text: `Page ${pageNumber}, bubble 2.`, box_2d: [520, 100, 700, 420], speaker: 'Ren' },
+];
+
+export const fakeProvider: VisionProvider = {
+  id: 'fake',
+  label: 'Fake (testing)',
+  description: 'Returns placeholder bubbles and text instantly. Useful for testing the reader without a model.',
+  requiresNetwork: false,
+  cacheVersion: '2',
+  analyzePages: async (imageUrls) => imageUrls.map((_, i) => fakeBubbles(i + 1)),
+  extractPageText: async (imageUrls) =>
+    imageUrls.map((_, i) => fakeBubbles(i + 1).map(bubble => bubble.text).join(' ')),
+  translateTexts: async (texts, targetLanguage) => texts.map(text => `[${targetLanguage}] ${text}`),
+};
@@ -0,0 +1,27 @@
+export type ArchiveFormat = 'zip' | 'rar' | '7z' | 'pdf' | 'unknown';
+
+export const FORMAT_LABELS: Record<ArchiveFormat, string> = {
+  zip: 'ZIP/CBZ',
+  rar: 'RAR/CBR',
+  '7z': '7z/CB7',
+  pdf: 'PDF',
+  unknown: 'unknown',
+};
+
+// File signatures, checked against the first bytes of the file
+const SIGNATURES: { format: Exclude<ArchiveFormat, 'unknown'>; bytes: number[] }[] = [
+  { format: 'zip', bytes: [0x50, 0x4b, 0x03, 0x04] }, // PK\x03\x04
+  { format: 'zip', bytes: [0x50, 0x4b, 0x05, 0x06] }, // Empty archive
+  { format: 'zip', bytes: [0x50, 0x4b, 0x07, 0x08] }, // Spanned archive
+  { format: 'rar', bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] }, // Rar!\x1A\x07 (RAR4 and RAR5)
+  { format: '7z', bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+  { format: 'pdf', bytes: [0x25, 0x50, 0x44, 0x46] }, // %PDF
+];
+
+// Sniff the magic bytes of a file. The extension is deliberately ignored:
+// plenty of .cbr files are really ZIPs and vice versa.
+export const detectArchiveFormat = async (file: Blob): Promise<ArchiveFormat> => {
+  const header = new Uint8Array(await file.slice(0, 8).arrayBuffer());
+  const match = SIGNATURES.find(({ bytes }) => bytes.every((b, i) => header[i] === b));
+  return match ? match.format : 'unknown';
+};
@@ -0,0 +1,9 @@
+// SHA-256 of some bytes as a hex string
+export const hashBytes = async (data: BufferSource): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// SHA-256 of a blob's bytes as a hex string. Used to recognise the same page image
+// across imports, independent of filenames or manga ids.
+export const hashBlob = async (blob: Blob): Promise<string> => hashBytes(await blob.arrayBuffer());
@@ -0,0 +1,110 @@
+import { ImageQuality } from '../types';
+
+// Page images scaled, stacked and JPEG-encoded for upload, in a worker so page turns stay smooth
+// while a batch is prepared. Like the thumbnail worker, one is created lazily and reused.
+
+export interface ImageQualityProfile {
+  label: string;
+  description: string;
+  maxWidth: number; // px; narrower pages keep their size
+  quality: number; // JPEG quality, 0-1
+}
+
+export const IMAGE_QUALITY_PROFILES: Record<ImageQuality, ImageQualityProfile> = {
+  fast: { label: 'Fast', description: 'Smallest uploads. Small text may be unreadable.', maxWidth: 800, quality: 0.4 },
+  balanced: { label: 'Balanced', description: 'Readable text at a moderate upload size.', maxWidth: 1280, quality: 0.7 },
+  detailed: { label: 'Detailed', description: 'For dense or tiny lettering. Slower uploads.', maxWidth: 2048, quality: 0.9 },
+};
+
+export interface EncodedImage {
+  base64: string; // Data part only
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+type EncodeResponse =
+  | { id: number, base64: Uint8Array, width: number, height: number }
+  | { id: number, error: string };
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (image: EncodedImage) => void, reject: (error: Error) => void }>();
+const decoder = new TextDecoder();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./imageEncodingWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<EncodeResponse>) => {
+      const request = pending.get(e.data.id);
+      pending.delete(e.data.id);
+      if ('error' in e.data) {
+        request?.reject(new Error(e.data.error));
+        return;
+      }
+      const { base64, width, height } = e.data;
+      request?.resolve({ base64: decoder.decode(base64), mimeType: 'image/jpeg', width, height });
+    };
+    // A worker that fails to start takes its pending requests with it; the next request starts a new one
+    worker.onerror = (e) => {
+      pending.forEach(request => request.reject(new Error(e.message || 'Image encoding worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+const encodeInWorker = (blobs: Blob[], maxWidth: number, quality: number) => new Promise<EncodedImage>((resolve, reject) => {
+  const id = nextId++;
+  pending.set(id, { resolve, reject });
+  getWorker().postMessage({ id, blobs, maxWidth, quality });
+});
+
+// The old path, for browsers whose workers can't draw: the same result, on a page canvas
+const encodeOnMainThread = async (blobs: Blob[], maxWidth: number, quality: number): Promise<EncodedImage> => {
+  const bitmaps = await Promise.all(blobs.map(blob => createImageBitmap(blob)));
+  try {
+    const widest = bitmaps.reduce((width, bitmap) => Math.max(width, bitmap.width), 0);
+    const scale = Math.min(1, maxWidth / widest);
+    const heights = bitmaps.map(bitmap => Math.max(1, Math.round(bitmap.height * scale)));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(widest * scale));
+    canvas.height = heights.reduce((sum, height) => sum + height, 0);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    let y = 0;
+    bitmaps.forEach((bitmap, i) => {
+      ctx.drawImage(bitmap, 0, y, canvas.width, heights[i]);
+      y += heights[i];
+    });
+
+    const base64 = canvas.toDataURL('image/jpeg', quality).split(',')[1];
+    return { base64, mimeType: 'image/jpeg', width: canvas.width, height: canvas.height };
+  } finally {
+    bitmaps.forEach(bitmap => bitmap.close());
+  }
+};
+
+// The images stacked top to bottom into one JPEG, scaled to the profile's width.
+// Falls back to the main thread where the worker can't run or draw.
+export const encodeImages = async (imageUrls: string[], imageQuality: ImageQuality): Promise<EncodedImage> => {
+  // Reading a blob URL doesn't decode the image; the worker does that
+  const blobs = await Promise.all(imageUrls.map(async url => (await fetch(url)).blob()));
+  const { maxWidth, quality } = IMAGE_QUALITY_PROFILES[imageQuality] || IMAGE_QUALITY_PROFILES.balanced;
+
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    return encodeOnMainThread(blobs, maxWidth, quality);
+  }
+  try {
+    return await encodeInWorker(blobs, maxWidth, quality);
+  } catch (error) {
+    console.warn('[Upload] Encoding in the worker failed, using the main thread', error);
+    return encodeOnMainThread(blobs, maxWidth, quality);
+  }
+};
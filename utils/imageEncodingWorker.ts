@@ -0,0 +1,56 @@
+// Prepares page images for upload to a vision provider, off the main thread: decodes them,
+// scales them to the profile's width, stacks them top to bottom and encodes one JPEG.
+
+interface EncodeRequest {
+  id: number;
+  blobs: Blob[];
+  maxWidth: number;
+  quality: number; // JPEG quality, 0-1
+}
+
+// Base64 (data part only), as the provider APIs take it
+const toBase64 = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // In chunks; spreading a whole page into one call overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+self.onmessage = async (e: MessageEvent<EncodeRequest>) => {
+  const { id, blobs, maxWidth, quality } = e.data;
+  const bitmaps: ImageBitmap[] = [];
+  try {
+    for (const blob of blobs) bitmaps.push(await createImageBitmap(blob));
+
+    const widest = bitmaps.reduce((width, bitmap) => Math.max(width, bitmap.width), 0);
+    const scale = Math.min(1, maxWidth / widest);
+    const width = Math.max(1, Math.round(widest * scale));
+    const heights = bitmaps.map(bitmap => Math.max(1, Math.round(bitmap.height * scale)));
+
+    const canvas = new OffscreenCanvas(width, heights.reduce((sum, height) => sum + height, 0));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    // JPEG has no transparency; keep transparent pages white rather than black
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.imageSmoothingQuality = 'high';
+    let y = 0;
+    bitmaps.forEach((bitmap, i) => {
+      ctx.drawImage(bitmap, 0, y, width, heights[i]);
+      y += heights[i];
+    });
+
+    const jpeg = await canvas.convertToBlob({ type: 'image/jpeg', quality });
+    // Sent back as ASCII bytes so the buffer is transferred rather than copied
+    const base64 = new TextEncoder().encode(await toBase64(jpeg));
+    self.postMessage({ id, base64, width: canvas.width, height: canvas.height }, { transfer: [base64.buffer] });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  } finally {
+    bitmaps.forEach(bitmap => bitmap.close());
+  }
+};
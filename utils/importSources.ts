@@ -0,0 +1,78 @@
+import { ImportSource } from '../types';
+import { IMAGE_EXTENSION } from './extractors';
+import { isComicInfoFile } from './comicInfo';
+import { isSidecarFile } from './analysisExport';
+
+// Turns picked or dropped files and folders into things to import.
+// Archives are imported one by one; the loose images of each folder become one manga.
+
+const ARCHIVE_EXTENSION = /\.(zip|cbz|rar|cbr|7z|cb7|pdf)$/i;
+
+// Name for images dropped on their own, outside any folder
+const LOOSE_IMAGES_NAME = 'Untitled';
+
+interface FoundFile {
+  path: string; // Relative to what was dropped, e.g. "Series/Chapter 1/001.jpg"
+  file: File;
+}
+
+const byName = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+const groupImportSources = (found: FoundFile[]): ImportSource[] => {
+  const archives: File[] = [];
+  const folders = new Map<string, File[]>();
+
+  found.forEach(({ path, file }) => {
+    const dir = path.split('/').slice(0, -1).join('/');
+    const isFolderPart = IMAGE_EXTENSION.test(file.name) || isComicInfoFile(file.name) || isSidecarFile(file.name);
+    if (isFolderPart) {
+      if (!folders.has(dir)) folders.set(dir, []);
+      folders.get(dir)!.push(file);
+    } else if (ARCHIVE_EXTENSION.test(file.name) || !dir) {
+      // Files picked directly are always tried, since the format is detected from their contents
+      archives.push(file);
+    }
+  });
+
+  const imageFolders = Array.from(folders.entries())
+    .filter(([, files]) => files.some(file => IMAGE_EXTENSION.test(file.name)))
+    .sort(([a], [b]) => byName(a, b))
+    .map(([dir, files]) => ({ name: dir.split('/').pop() || LOOSE_IMAGES_NAME, files }));
+
+  // Name order, so the chapters of a series are added in sequence
+  return [...archives.sort((a, b) => byName(a.name, b.name)), ...imageFolders];
+};
+
+const readFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+// Every file below an entry. Directory readers return their entries in chunks, until an empty one.
+const readEntry = async (entry: FileSystemEntry): Promise<FoundFile[]> => {
+  if (entry.isFile) {
+    return [{ path: entry.fullPath.replace(/^\//, ''), file: await readFile(entry as FileSystemFileEntry) }];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  for (;;) {
+    const chunk = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (chunk.length === 0) break;
+    children.push(...chunk);
+  }
+  return (await Promise.all(children.map(readEntry))).flat();
+};
+
+export const readDroppedSources = async (dataTransfer: DataTransfer): Promise<ImportSource[]> => {
+  // Entries have to be taken before the drop event returns, i.e. before the first await
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  // Browsers without the entries API only give the top-level files
+  if (entries.length === 0) {
+    return groupImportSources(Array.from(dataTransfer.files).map(file => ({ path: file.name, file })));
+  }
+  return groupImportSources((await Promise.all(entries.map(readEntry))).flat());
+};
+
+export const pickedSources = (files: FileList): ImportSource[] =>
+  groupImportSources(Array.from(files).map(file => ({ path: file.name, file })));
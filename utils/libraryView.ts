@@ -0,0 +1,103 @@
+import { Collection, LibraryItem, LibrarySort, LibraryView, ReadStatus } from '../types';
+import { SeriesGroup } from './series';
+
+// Sorting and filtering of the library grid, and the user's collections.
+// Both are saved in localStorage like the app settings.
+
+const VIEW_KEY = 'mangalunar:library-view';
+const COLLECTIONS_KEY = 'mangalunar:collections';
+
+export const DEFAULT_VIEW: LibraryView = {
+  sort: 'title',
+  status: 'all',
+  tag: null,
+  collectionId: null,
+};
+
+export const SORT_LABELS: Record<LibrarySort, string> = {
+  title: 'Title',
+  added: 'Date added',
+  lastRead: 'Last read',
+  progress: 'Progress',
+};
+
+export const STATUS_LABELS: Record<ReadStatus | 'all', string> = {
+  all: 'All',
+  unread: 'Unread',
+  reading: 'Reading',
+  finished: 'Finished',
+};
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch (error) {
+    console.warn(`Failed to read ${key}, using defaults`, error);
+    return fallback;
+  }
+};
+
+export const loadLibraryView = (): LibraryView => ({ ...DEFAULT_VIEW, ...readJson<Partial<LibraryView>>(VIEW_KEY, {}) });
+
+export const saveLibraryView = (view: LibraryView) => {
+  localStorage.setItem(VIEW_KEY, JSON.stringify(view));
+};
+
+export const loadCollections = (): Collection[] => readJson<Collection[]>(COLLECTIONS_KEY, []);
+
+export const saveCollections = (collections: Collection[]) => {
+  localStorage.setItem(COLLECTIONS_KEY, JSON.stringify(collections));
+};
+
+// Fraction of the manga read so far (0-1)
+export const getProgress = (item: LibraryItem) => {
+  if (item.isFinished) return 1;
+  if (!item.totalPages || item.lastReadPage === undefined) return 0;
+  return Math.min((item.lastReadPage + 1) / item.totalPages, 1);
+};
+
+export const getReadStatus = (item: LibraryItem): ReadStatus =>
+  item.isFinished ? 'finished' : item.lastReadPage !== undefined ? 'reading' : 'unread';
+
+// Every tag used in the library, alphabetically
+export const allTags = (items: LibraryItem[]) =>
+  Array.from(new Set(items.flatMap(item => item.tags || []))).sort((a, b) => a.localeCompare(b));
+
+// Entries matching the view's filters and a title search (matched against title and series)
+export const filterItems = (items: LibraryItem[], view: LibraryView, query: string) => {
+  const needle = query.trim().toLowerCase();
+  return items.filter(item =>
+    (view.status === 'all' || getReadStatus(item) === view.status) &&
+    (!view.tag || item.tags?.includes(view.tag)) &&
+    (!view.collectionId || item.collectionIds?.includes(view.collectionId)) &&
+    (!needle || item.title.toLowerCase().includes(needle) || !!item.series?.toLowerCase().includes(needle))
+  );
+};
+
+// A grid card: a single entry or a whole series. Series are sorted by their name, their newest
+// and most recently read chapter, and the share of chapters finished.
+export type GridEntry = { group: SeriesGroup } | { item: LibraryItem };
+
+const sortValues = (entry: GridEntry) => {
+  const items = 'group' in entry ? entry.group.items : [entry.item];
+  return {
+    title: 'group' in entry ? entry.group.name : entry.item.title,
+    added: Math.max(...items.map(item => item.addedAt || 0)),
+    lastRead: Math.max(...items.map(item => item.lastOpenedAt || 0)),
+    progress: items.reduce((sum, item) => sum + getProgress(item), 0) / items.length,
+  };
+};
+
+const byTitle = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' });
+
+// Title A-Z; everything else newest or furthest first, ties by title
+export const sortEntries = (entries: GridEntry[], sort: LibrarySort): GridEntry[] => {
+  const values = new Map(entries.map(entry => [entry, sortValues(entry)]));
+  return [...entries].sort((a, b) => {
+    const va = values.get(a)!;
+    const vb = values.get(b)!;
+    if (sort === 'title') return byTitle(va.title, vb.title);
+    return (vb[sort] - va[sort]) || byTitle(va.title, vb.title);
+  });
+};
@@ -0,0 +1,100 @@
+// Lock screen / headset controls for listen mode.
+// Browsers only show Media Session controls while an audio element is playing, and speech
+// synthesis doesn't count, so a silent looping clip is played alongside the speech.
+
+export interface MediaSessionInfo {
+  title: string;
+  artist?: string;
+  album?: string;
+  artworkUrl?: string;
+}
+
+export interface MediaSessionHandlers {
+  play: () => void;
+  pause: () => void;
+  next: () => void;
+  previous: () => void;
+  stop: () => void;
+}
+
+// One second of 8-bit mono silence as a WAV blob URL
+const createSilentWavUrl = () => {
+  const sampleRate = 8000;
+  const buffer = new ArrayBuffer(44 + sampleRate);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, value: string) =>
+    value.split('').forEach((char, i) => view.setUint8(offset + i, char.charCodeAt(0)));
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + sampleRate, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // Byte rate
+  view.setUint16(32, 1, true); // Block align
+  view.setUint16(34, 8, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, sampleRate, true);
+  new Uint8Array(buffer, 44).fill(128); // Unsigned 8-bit: 128 is silence
+
+  return URL.createObjectURL(new Blob([buffer], { type: 'audio/wav' }));
+};
+
+// Must be called from a user gesture so the silent clip is allowed to play
+export const startMediaSession = (info: MediaSessionInfo, handlers: MediaSessionHandlers) => {
+  const audioUrl = createSilentWavUrl();
+  const audio = new Audio(audioUrl);
+  audio.loop = true;
+  audio.play().catch(error => console.warn('[MediaSession] Silent audio blocked', error));
+
+  const session = 'mediaSession' in navigator ? navigator.mediaSession : null;
+  const actions: [MediaSessionAction, () => void][] = [
+    ['play', handlers.play],
+    ['pause', handlers.pause],
+    ['nexttrack', handlers.next],
+    ['previoustrack', handlers.previous],
+    ['stop', handlers.stop],
+  ];
+  actions.forEach(([action, handler]) => {
+    try {
+      session?.setActionHandler(action, handler);
+    } catch {
+      // Action not supported by this browser
+    }
+  });
+
+  const update = ({ title, artist, album, artworkUrl }: MediaSessionInfo) => {
+    if (!session) return;
+    session.metadata = new MediaMetadata({ title, artist, album, artwork: artworkUrl ? [{ src: artworkUrl }] : [] });
+  };
+  update(info);
+  if (session) session.playbackState = 'playing';
+
+  return {
+    update,
+    setPaused: (paused: boolean) => {
+      if (paused) audio.pause();
+      else audio.play().catch(() => { /* ignore */ });
+      if (session) session.playbackState = paused ? 'paused' : 'playing';
+    },
+    stop: () => {
+      audio.pause();
+      URL.revokeObjectURL(audioUrl);
+      if (!session) return;
+      actions.forEach(([action]) => {
+        try {
+          session.setActionHandler(action, null);
+        } catch {
+          // Action not supported by this browser
+        }
+      });
+      session.metadata = null;
+      session.playbackState = 'none';
+    },
+  };
+};
+
+export type MediaSessionController = ReturnType<typeof startMediaSession>;
@@ -1,130 +1,149 @@
-import { GoogleGenAI } from "@google/genai";
-import { SpeechBubble } from "../types";
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { ImageQuality, SpeechBubble, VisionProvider } from "../types";
+import { AnalysisResponseError, validatePageResults } from "./bubbleValidation";
+import { EncodedImage, encodeImages } from "./imageEncoding";
 
 // Initialize Gemini API Client
 // The key is expected to be in process.env.API_KEY when running in an environment
 // that supports it. Do NOT embed or hardcode API keys in source.
+const GEMINI_MODEL = 'gemini-3-flash-preview';
+// Bump when BUBBLE_SYSTEM_PROMPT, OCR_STACKED_PROMPT, the translation prompt or the response schemas change
+const PROMPT_VERSION = 4;
+
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
 const BUBBLE_SYSTEM_PROMPT = `Analyze the provided manga pages in the exact order they are given.
 For each page, detect all speech bubbles.
 Return an array of results, where the first item corresponds to the first image, the second item to the second image, and so on.
-For each bubble, extract the English text and the bounding box (ymin, xmin, ymax, xmax) on a 0-1000 scale relative to the image dimensions.
-Ignore sound effects and narration boxes if they don't contain dialogue.`;
+For each bubble, extract the text exactly as written, in its original language, and the bounding box (ymin, xmin, ymax, xmax) on a 0-1000 scale relative to the image dimensions.
+Ignore sound effects and narration boxes if they don't contain dialogue.
+If you can tell which character says a bubble, set speaker to their name, or to a short consistent description
+(e.g. "old man") if the name is unknown. Use the same speaker string for the same character on every page. Omit speaker when unsure.`;
+
+// Structured output: one entry per page, in the order the images were sent
+const BUBBLE_RESPONSE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      bubbles: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            text: { type: Type.STRING },
+            box_2d: {
+              type: Type.ARRAY,
+              items: { type: Type.NUMBER },
+              minItems: '4',
+              maxItems: '4',
+            },
+            speaker: { type: Type.STRING },
+          },
+          required: ['text', 'box_2d'],
+          propertyOrdering: ['text', 'box_2d', 'speaker'],
+        },
+      },
+    },
+    required: ['bubbles'],
+  },
+};
+
+const TRANSLATION_RESPONSE_SCHEMA: Schema = {
+  type: Type.ARRAY,
+  items: { type: Type.STRING },
+};
+
+const translationPrompt = (texts: string[], targetLanguage: string) => `These are the speech bubbles of one manga page, in reading order:
+${JSON.stringify(texts)}
+Translate each bubble into ${targetLanguage}. Use the other bubbles as context, keep the speaker's tone,
+and keep each translation about as short as the original so it fits the same bubble.
+Return a JSON array with exactly ${texts.length} strings, in the same order.`;
 
 const OCR_STACKED_PROMPT = `This image contains 3 manga pages stacked vertically. Read the text and return it formatted strictly as a JSON array of 3 strings, where each string is the text for one page.`;
 
-// Existing bubble analysis (keeps old behavior)
+// Bubble analysis with a response schema. Throws an AnalysisResponseError
+// (or PageCountMismatchError) instead of returning empty pages when the response is unusable.
 export const analyzeMangaPages = async (
-  base64Images: string[]
+  images: EncodedImage[]
 ): Promise<SpeechBubble[][]> => {
-  try {
-    const parts: any[] = [];
+  const parts: any[] = [];
 
-    base64Images.forEach(b64 => {
-      parts.push({
-        inlineData: { mimeType: "image/png", data: b64 }
-      });
+  images.forEach(image => {
+    parts.push({
+      inlineData: { mimeType: image.mimeType, data: image.base64 }
     });
+  });
 
-    parts.push({ text: BUBBLE_SYSTEM_PROMPT });
+  parts.push({ text: BUBBLE_SYSTEM_PROMPT });
 
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: { parts }
-    });
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: { parts },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: BUBBLE_RESPONSE_SCHEMA,
+    }
+  });
 
-    const text = response.text;
-    if (!text) return base64Images.map(() => []);
+  const text = response.text;
+  if (!text) throw new AnalysisResponseError('empty_response', 'The model returned an empty response');
 
-    try {
-      const parsed = JSON.parse(text);
-      if (Array.isArray(parsed)) {
-        return parsed.map((pageResult: any) => pageResult.bubbles || []);
-      }
-      return base64Images.map(() => []);
-    } catch (e) {
-      console.error("Failed to parse JSON response", e);
-      return base64Images.map(() => []);
-    }
-  } catch (error) {
-    console.error("OCR Batch Error:", error);
-    return base64Images.map(() => []);
+  let parsed: unknown;
+  try {
+    // Structured output shouldn't be fenced, but strip markdown fences just in case
+    parsed = JSON.parse(text.replace(/```json/gi, '').replace(/```/g, '').trim());
+  } catch (e) {
+    console.error("Failed to parse JSON response", e, "Raw response:", text);
+    throw new AnalysisResponseError('invalid_json', `Response is not valid JSON: ${text.substring(0, 100)}`);
   }
+
+  return validatePageResults(parsed, images.length);
 };
 
-// Convert a blob URL (or any image URL) to base64 (data part only)
-export const blobUrlToBase64 = async (url: string): Promise<string> => {
-  const response = await fetch(url);
-  const blob = await response.blob();
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const result = reader.result?.toString();
-      if (result) resolve(result.split(',')[1]); else reject(new Error("Failed to convert blob to base64"));
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
+// Translate one page's bubble texts. Returns one translation per input text, in order.
+export const translateBubbleTexts = async (texts: string[], targetLanguage: string): Promise<string[]> => {
+  if (texts.length === 0) return [];
+
+  const response = await ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: { parts: [{ text: translationPrompt(texts, targetLanguage) }] },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: TRANSLATION_RESPONSE_SCHEMA,
+    }
   });
-};
 
-// Merge up to 3 images vertically onto a single canvas and return a base64 JPEG (data part only)
-// Images are scaled down to max width of 800px and aggressively compressed
-export const mergeImagesToBase64 = async (imageUrls: string[]): Promise<string> => {
-  // Load images
-  const imgs: HTMLImageElement[] = await Promise.all(imageUrls.map(url => new Promise<HTMLImageElement>((resolve, reject) => {
-    const img = new Image();
-    img.crossOrigin = 'anonymous';
-    img.onload = () => resolve(img);
-    img.onerror = (e) => reject(new Error('Failed to load image ' + url));
-    img.src = url;
-  })));
-
-  // Limit canvas width to 800px for faster uploads
-  const MAX_WIDTH = 800;
-  const maxNaturalWidth = imgs.reduce((w, img) => Math.max(w, img.naturalWidth || img.width), 0);
-  const scale = Math.min(1, MAX_WIDTH / maxNaturalWidth);
-  
-  const canvasWidth = Math.round(maxNaturalWidth * scale);
-  const scaledHeights = imgs.map(img => Math.round((img.naturalHeight || img.height) * scale));
-  const totalHeight = scaledHeights.reduce((s, h) => s + h, 0);
-
-  const canvas = document.createElement('canvas');
-  canvas.width = canvasWidth;
-  canvas.height = totalHeight;
-  const ctx = canvas.getContext('2d');
-  if (!ctx) throw new Error('Failed to get canvas context');
-
-  console.log(`[OCR] Merging ${imgs.length} images: ${canvasWidth}x${totalHeight}px (scale: ${scale.toFixed(2)})`);
-
-  let y = 0;
-  for (let i = 0; i < imgs.length; i++) {
-    const img = imgs[i];
-    const scaledH = scaledHeights[i];
-    ctx.drawImage(img, 0, y, canvas.width, scaledH);
-    y += scaledH;
-  }
+  const text = response.text;
+  if (!text) throw new AnalysisResponseError('empty_response', 'The model returned an empty translation');
 
-  // Export as JPEG with aggressive compression (0.4) for faster upload
-  const dataUrl = canvas.toDataURL('image/jpeg', 0.4);
-  const base64 = dataUrl.split(',')[1];
-  const sizeKB = Math.round((base64.length * 0.75) / 1024);
-  console.log(`[OCR] Compressed to ${sizeKB}KB`);
-  return base64;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text.replace(/```json/gi, '').replace(/```/g, '').trim());
+  } catch (e) {
+    throw new AnalysisResponseError('invalid_json', `Translation is not valid JSON: ${text.substring(0, 100)}`);
+  }
+  if (!Array.isArray(parsed) || !parsed.every(item => typeof item === 'string')) {
+    throw new AnalysisResponseError('invalid_schema', 'Translation is not an array of strings');
+  }
+  if (parsed.length !== texts.length) {
+    throw new AnalysisResponseError('invalid_schema', `Expected ${texts.length} translations, got ${parsed.length}`);
+  }
+  return parsed;
 };
 
-// Perform a batched OCR request: merge up to 3 images and send a single request.
+// Perform a batched OCR request: stack up to 3 images into one and send a single request.
 // Returns an array of strings (one per page requested).
-export const performBatchedOCR = async (imageUrls: string[]): Promise<string[]> => {
+export const performBatchedOCR = async (imageUrls: string[], imageQuality: ImageQuality): Promise<string[]> => {
   try {
-    const mergedBase64 = await mergeImagesToBase64(imageUrls);
+    const merged = await encodeImages(imageUrls, imageQuality);
 
     const parts: any[] = [];
-    parts.push({ inlineData: { mimeType: 'image/jpeg', data: mergedBase64 } });
+    parts.push({ inlineData: { mimeType: merged.mimeType, data: merged.base64 } });
     parts.push({ text: OCR_STACKED_PROMPT });
 
     const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
+      model: GEMINI_MODEL,
       contents: { parts }
     });
 
@@ -149,4 +168,15 @@ export const performBatchedOCR = async (imageUrls: string[]): Promise<string[]>
     console.error('performBatchedOCR error', err);
     throw err;
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  description: 'Cloud model. Best bubble detection, needs a network connection and an API key.',
+  requiresNetwork: true,
+  cacheVersion: `${GEMINI_MODEL}@${PROMPT_VERSION}`,
+  analyzePages: async (imageUrls, imageQuality) => analyzeMangaPages(await Promise.all(imageUrls.map(url => encodeImages([url], imageQuality)))),
+  extractPageText: performBatchedOCR,
+  translateTexts: translateBubbleTexts,
+};
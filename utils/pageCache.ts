@@ -0,0 +1,95 @@
+// Object URLs for the pages around the reading position.
+// Pages are read through MangaItem.loadPage the first time they're needed. Once more than
+// `capacity` URLs are open, the least recently used ones outside the current window are revoked.
+// Pages handed to a vision provider are pinned until its request is done.
+
+export const PAGE_CACHE_SIZE = 12;
+
+export const createPageCache = (loadPage: (index: number) => Promise<Blob>, onChange: () => void, capacity = PAGE_CACHE_SIZE) => {
+  const urls = new Map<number, string>(); // Oldest first; re-inserted on use
+  const loading = new Map<number, Promise<string>>();
+  const pins = new Map<number, number>();
+  let windowPages = new Set<number>();
+  let generation = 0; // Bumped by clear(), so loads started before it are dropped
+
+  const touch = (index: number) => {
+    const url = urls.get(index);
+    if (url === undefined) return;
+    urls.delete(index);
+    urls.set(index, url);
+  };
+
+  const evict = () => {
+    let evicted = false;
+    for (const [index, url] of Array.from(urls)) {
+      if (urls.size <= capacity) break;
+      if (windowPages.has(index) || pins.get(index)) continue;
+      URL.revokeObjectURL(url);
+      urls.delete(index);
+      evicted = true;
+    }
+    if (evicted) onChange();
+  };
+
+  const load = (index: number): Promise<string> => {
+    const cached = urls.get(index);
+    if (cached !== undefined) {
+      touch(index);
+      return Promise.resolve(cached);
+    }
+    if (!loading.has(index)) {
+      const started = generation;
+      loading.set(index, loadPage(index)
+        .then(blob => {
+          if (started !== generation) throw new Error('Page cache was cleared');
+          const url = URL.createObjectURL(blob);
+          urls.set(index, url);
+          onChange();
+          evict();
+          return url;
+        })
+        .finally(() => { if (started === generation) loading.delete(index); }));
+    }
+    return loading.get(index)!;
+  };
+
+  return {
+    // The URL of a page, if it's loaded
+    get: (index: number) => urls.get(index),
+
+    // Load the pages around the reading position and keep them from being evicted
+    setWindow: (indices: number[]) => {
+      windowPages = new Set(indices);
+      const started = generation;
+      indices.forEach(index => load(index).catch(error => {
+        if (started === generation) console.warn(`[Pages] Failed to load page ${index + 1}`, error);
+      }));
+      evict();
+    },
+
+    // Run a task with the URLs of some pages, which stay valid until it settles
+    withPages: async <T>(indices: number[], task: (urls: string[]) => Promise<T>): Promise<T> => {
+      indices.forEach(index => pins.set(index, (pins.get(index) || 0) + 1));
+      try {
+        return await task(await Promise.all(indices.map(load)));
+      } finally {
+        indices.forEach(index => {
+          const count = (pins.get(index) || 1) - 1;
+          if (count > 0) pins.set(index, count);
+          else pins.delete(index);
+        });
+        evict();
+      }
+    },
+
+    // Revoke everything, e.g. when the reader closes. Pages are loaded again if asked for later.
+    clear: () => {
+      generation++;
+      urls.forEach(url => URL.revokeObjectURL(url));
+      urls.clear();
+      loading.clear();
+    },
+  };
+};
+
+export type PageCache = ReturnType<typeof createPageCache>;
@@ -0,0 +1,33 @@
+// Installed-app support: the service worker (built from sw.js) and files opened with the app
+
+// File Handling API, Chromium only: files the app was launched with from the OS
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+declare global {
+  interface Window {
+    launchQueue?: { setConsumer: (consumer: (params: LaunchParams) => void) => void };
+  }
+}
+
+// Only in production builds; in development it would serve stale modules
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .catch(error => console.error("Failed to register the service worker", error));
+  });
+};
+
+// Calls onFiles with the .cbz/.zip files the app was opened with (see file_handlers in the manifest)
+export const consumeLaunchedFiles = (onFiles: (files: File[]) => void) => {
+  window.launchQueue?.setConsumer(async ({ files }) => {
+    if (files.length === 0) return;
+    try {
+      onFiles(await Promise.all(files.map(handle => handle.getFile())));
+    } catch (error) {
+      console.error("Failed to read launched files", error);
+    }
+  });
+};
@@ -0,0 +1,157 @@
+// A small task scheduler for vision provider calls: limited concurrency, a requests-per-minute
+// cap, exponential backoff on rate limits / server errors, and pause/resume/cancel.
+// Tasks are keyed so the same batch is never requested twice while it is queued or running.
+// Tasks can belong to a group (e.g. a whole-chapter job) that is paused on its own; other tasks keep running.
+
+export interface SchedulerOptions {
+  concurrency: number;
+  requestsPerMinute: number; // 0 = no cap
+  maxRetries?: number;
+  baseDelayMs?: number;
+}
+
+export class TaskCancelledError extends Error {
+  constructor(key: string) {
+    super(`Task "${key}" was cancelled`);
+    this.name = 'TaskCancelledError';
+  }
+}
+
+interface Job {
+  key: string;
+  task: () => Promise<unknown>;
+  attempt: number;
+  group?: string;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+}
+
+const RATE_WINDOW_MS = 60_000;
+
+// 429 and 5xx are worth retrying; anything else (bad key, bad response) will fail again
+export const isRetryableError = (error: unknown) => {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  const message = error instanceof Error ? error.message : String(error);
+  return /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit/i.test(message);
+};
+
+export const createScheduler = (initialOptions: SchedulerOptions) => {
+  let options = { maxRetries: 4, baseDelayMs: 2000, ...initialOptions };
+  const pausedGroups = new Set<string>();
+  let active = 0;
+  const queue: Job[] = [];
+  const waiting = new Map<Job, ReturnType<typeof setTimeout>>(); // Jobs sleeping before a retry
+  const pending = new Map<string, Promise<unknown>>();
+  const startTimes: number[] = [];
+  let rateTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const execute = (job: Job) => {
+    active++;
+    startTimes.push(Date.now());
+    job.task()
+      .then(job.resolve, error => {
+        if (job.attempt < options.maxRetries && isRetryableError(error)) {
+          const delay = options.baseDelayMs * 2 ** job.attempt + Math.random() * 500;
+          console.warn(`[Scheduler] "${job.key}" failed, retrying in ${Math.round(delay)}ms`, error);
+          const timer = setTimeout(() => {
+            waiting.delete(job);
+            queue.unshift({ ...job, attempt: job.attempt + 1 });
+            pump();
+          }, delay);
+          waiting.set(job, timer);
+        } else {
+          job.reject(error);
+        }
+      })
+      .finally(() => {
+        active--;
+        pump();
+      });
+  };
+
+  const isHeld = (job: Job) => job.group !== undefined && pausedGroups.has(job.group);
+
+  const pump = () => {
+    while (active < options.concurrency) {
+      const next = queue.findIndex(job => !isHeld(job));
+      if (next < 0) return;
+      if (options.requestsPerMinute > 0) {
+        const now = Date.now();
+        while (startTimes.length > 0 && now - startTimes[0] >= RATE_WINDOW_MS) startTimes.shift();
+        if (startTimes.length >= options.requestsPerMinute) {
+          // Wait until the oldest request leaves the window
+          if (!rateTimer) {
+            rateTimer = setTimeout(() => { rateTimer = null; pump(); }, startTimes[0] + RATE_WINDOW_MS - now);
+          }
+          return;
+        }
+      }
+      execute(queue.splice(next, 1)[0]);
+    }
+  };
+
+  // Queue a task. `priority` puts it ahead of everything already waiting (e.g. the page on screen).
+  const run = <T>(key: string, task: () => Promise<T>, priority = false, group?: string): Promise<T> => {
+    const existing = pending.get(key);
+    if (existing) return existing as Promise<T>;
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const job: Job = { key, task, attempt: 0, group, resolve: resolve as (value: unknown) => void, reject };
+      if (priority) queue.unshift(job);
+      else queue.push(job);
+    });
+    pending.set(key, promise);
+    promise.then(() => pending.delete(key), () => pending.delete(key));
+    pump();
+    return promise;
+  };
+
+  // A task already queued by a group is now wanted on its own (e.g. it's the page on screen):
+  // it leaves the group, so pausing or cancelling the group no longer holds it back
+  const claim = (key: string, priority = false) => {
+    const index = queue.findIndex(job => job.key === key);
+    if (index >= 0) {
+      const [job] = queue.splice(index, 1);
+      job.group = undefined;
+      if (priority) queue.unshift(job);
+      else queue.splice(index, 0, job);
+    }
+    waiting.forEach((_, job) => { if (job.key === key) job.group = undefined; });
+    pump();
+  };
+
+  // Drop queued (and retry-waiting) tasks. Requests already sent are left to finish.
+  const cancel = (filter: (key: string, group?: string) => boolean = () => true) => {
+    for (let i = queue.length - 1; i >= 0; i--) {
+      if (!filter(queue[i].key, queue[i].group)) continue;
+      const [job] = queue.splice(i, 1);
+      job.reject(new TaskCancelledError(job.key));
+    }
+    waiting.forEach((timer, job) => {
+      if (!filter(job.key, job.group)) return;
+      clearTimeout(timer);
+      waiting.delete(job);
+      job.reject(new TaskCancelledError(job.key));
+    });
+  };
+
+  return {
+    run,
+    cancel,
+    claim,
+    has: (key: string) => pending.has(key),
+    // Holds back the group's queued tasks; requests already sent finish
+    pause: (group: string) => { pausedGroups.add(group); },
+    resume: (group: string) => {
+      pausedGroups.delete(group);
+      pump();
+    },
+    setOptions: (next: Partial<SchedulerOptions>) => {
+      options = { ...options, ...next };
+      pump();
+    },
+  };
+};
+
+export type Scheduler = ReturnType<typeof createScheduler>;
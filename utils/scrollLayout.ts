@@ -0,0 +1,33 @@
+// Assumed width / height of pages that haven't loaded yet (a typical portrait manga page)
+const DEFAULT_PAGE_ASPECT = 0.7;
+
+// Vertical position of every page in continuous-scroll mode, plus the total height.
+// Pages are laid out edge to edge at the column width.
+export const computePageTops = (
+  pageCount: number,
+  aspects: Record<number, number>,
+  columnWidth: number,
+): { tops: number[]; heights: number[]; totalHeight: number } => {
+  const tops: number[] = [];
+  const heights: number[] = [];
+  let y = 0;
+  for (let i = 0; i < pageCount; i++) {
+    const height = Math.round(columnWidth / (aspects[i] || DEFAULT_PAGE_ASPECT));
+    tops.push(y);
+    heights.push(height);
+    y += height;
+  }
+  return { tops, heights, totalHeight: y };
+};
+
+// Index of the page covering vertical offset y (binary search over sorted tops)
+export const pageAtOffset = (tops: number[], y: number): number => {
+  let low = 0;
+  let high = tops.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (tops[mid] <= y) low = mid;
+    else high = mid - 1;
+  }
+  return Math.max(low, 0);
+};
@@ -0,0 +1,133 @@
+import { SpeechBubble } from '../types';
+import { getCachedPageResults } from './storage';
+
+// Local full-text search over the bubble and OCR text saved in the analysis cache.
+// The index is in memory and rebuilt from IndexedDB each time search is opened.
+
+interface SearchDocument {
+  mangaId: string;
+  pageIndex: number;
+  bubbleText?: string; // Set when the document is a single bubble, so the reader can highlight it
+  box_2d?: [number, number, number, number];
+  text: string;
+  lower: string;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, Set<number>>; // Token -> document indexes
+}
+
+export interface SearchHit {
+  mangaId: string;
+  pageIndex: number;
+  bubbleText?: string;
+  box_2d?: [number, number, number, number]; // Of the bubble, in the analysis it was found in
+  snippet: { before: string, match: string, after: string };
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+const SNIPPET_CONTEXT = 40; // Characters shown on each side of the match
+const MAX_HITS = 200;
+
+// Words for Latin-like scripts; overlapping character pairs for CJK, which has no spaces
+const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [word] of text.normalize('NFKC').toLowerCase().matchAll(WORD_PATTERN)) {
+    if (!CJK_PATTERN.test(word)) {
+      tokens.push(word);
+    } else if (word.length === 1) {
+      tokens.push(word);
+    } else {
+      for (let i = 0; i < word.length - 1; i++) tokens.push(word.slice(i, i + 2));
+    }
+  }
+  return tokens;
+};
+
+export const buildSearchIndex = async (): Promise<SearchIndex> => {
+  const results = await getCachedPageResults();
+  const documents: SearchDocument[] = [];
+  const seen = new Set<string>();
+
+  const addDocument = (mangaId: string, pageIndex: number, text: string, bubble?: SpeechBubble) => {
+    const trimmed = text.trim();
+    // The same page may be cached by several providers; keep one copy of each text
+    const key = `${mangaId}:${pageIndex}:${trimmed}`;
+    if (!trimmed || seen.has(key)) return;
+    seen.add(key);
+    documents.push({ mangaId, pageIndex, bubbleText: bubble?.text, box_2d: bubble?.box_2d, text: trimmed, lower: trimmed.toLowerCase() });
+  };
+
+  // Bubbles first, so a bubble wins over identical OCR text and can be highlighted
+  results.forEach(({ mangaId, pageIndex, kind, value }) => {
+    if (kind === 'bubbles') (value as SpeechBubble[]).forEach(bubble => addDocument(mangaId, pageIndex, bubble.text, bubble));
+  });
+  results.forEach(({ mangaId, pageIndex, kind, value }) => {
+    if (kind === 'text') addDocument(mangaId, pageIndex, value as string);
+  });
+
+  const postings = new Map<string, Set<number>>();
+  documents.forEach((doc, docIndex) => {
+    tokenize(doc.text).forEach(token => {
+      if (!postings.has(token)) postings.set(token, new Set());
+      postings.get(token)!.add(docIndex);
+    });
+  });
+
+  return { documents, postings };
+};
+
+// Documents containing the token; the last query token also matches as a prefix (search as you type)
+const lookup = (index: SearchIndex, token: string, prefix: boolean) => {
+  if (!prefix) return index.postings.get(token) || new Set<number>();
+  const matches = new Set<number>();
+  index.postings.forEach((docs, key) => {
+    if (key.startsWith(token)) docs.forEach(doc => matches.add(doc));
+  });
+  return matches;
+};
+
+const makeSnippet = (doc: SearchDocument, start: number, length: number) => {
+  const from = Math.max(start - SNIPPET_CONTEXT, 0);
+  const to = Math.min(start + length + SNIPPET_CONTEXT, doc.text.length);
+  return {
+    before: (from > 0 ? '…' : '') + doc.text.slice(from, start),
+    match: doc.text.slice(start, start + length),
+    after: doc.text.slice(start + length, to) + (to < doc.text.length ? '…' : ''),
+  };
+};
+
+// All documents matching every query token. Exact phrase matches come first.
+export const searchIndex = (index: SearchIndex, query: string): SearchHit[] => {
+  const tokens = tokenize(query);
+  if (tokens.length === 0) return [];
+
+  const candidates = tokens
+    .map((token, i) => lookup(index, token, i === tokens.length - 1))
+    .reduce((matches, docs) => new Set(Array.from(matches).filter(doc => docs.has(doc))));
+
+  const phrase = query.trim().toLowerCase();
+  const hits = Array.from(candidates).map(docIndex => {
+    const doc = index.documents[docIndex];
+    const phraseAt = doc.lower.indexOf(phrase);
+    const tokenAt = phraseAt >= 0 ? phraseAt : doc.lower.indexOf(tokens[0]);
+    const start = Math.max(tokenAt, 0);
+    const length = phraseAt >= 0 ? phrase.length : tokenAt >= 0 ? tokens[0].length : 0;
+    const hit: SearchHit = { mangaId: doc.mangaId, pageIndex: doc.pageIndex, bubbleText: doc.bubbleText, box_2d: doc.box_2d, snippet: makeSnippet(doc, start, length) };
+    return { hit, exact: phraseAt >= 0, docIndex };
+  });
+
+  // Each manga's hits stay together, in page order; manga are in the order their first hit was indexed
+  const mangaOrder = new Map<string, number>();
+  hits.forEach(({ hit, docIndex }) => mangaOrder.set(hit.mangaId, Math.min(mangaOrder.get(hit.mangaId) ?? docIndex, docIndex)));
+
+  return hits
+    .sort((a, b) => Number(b.exact) - Number(a.exact)
+      || mangaOrder.get(a.hit.mangaId)! - mangaOrder.get(b.hit.mangaId)!
+      || a.hit.pageIndex - b.hit.pageIndex
+      || a.docIndex - b.docIndex)
+    .slice(0, MAX_HITS)
+    .map(({ hit }) => hit);
+};
@@ -0,0 +1,81 @@
+import { LibraryItem, MangaMetadata } from '../types';
+
+export interface SeriesGroup {
+  key: string;
+  name: string;
+  items: LibraryItem[]; // Sorted in reading order
+}
+
+// Volume markers: "v03", "vol 3", "Vol.3", "volume 3"
+const VOLUME_PATTERN = /\b(?:v|vol|volume)\.?\s*(\d+(?:\.\d+)?)/i;
+// Chapter markers: "c021", "ch 21", "Ch.21.5", "chapter 21", "#21"
+const CHAPTER_PATTERN = /(?:\b(?:c|ch|chap|chapter)\.?\s*|#)(\d+(?:\.\d+)?)/i;
+
+// Guess series/volume/chapter from a filename like "One Piece v03 c021.cbz".
+// Series is only set when a volume or chapter marker is found.
+export const parseFilenameMetadata = (filename: string): Pick<MangaMetadata, 'series' | 'volume' | 'chapter'> => {
+  const name = filename
+    .replace(/\.[a-z0-9]+$/i, '')   // Extension
+    .replace(/[[(][^\])]*[\])]/g, ' ') // [Group] and (2021) tags
+    .replace(/_/g, ' ');
+
+  const volumeMatch = name.match(VOLUME_PATTERN);
+  const chapterMatch = name.match(CHAPTER_PATTERN);
+  if (!volumeMatch && !chapterMatch) return {};
+
+  const firstMarker = Math.min(
+    volumeMatch?.index ?? Infinity,
+    chapterMatch?.index ?? Infinity,
+  );
+  const series = name.slice(0, firstMarker).replace(/[\s\-–,.]+$/, '').trim();
+
+  const result: Pick<MangaMetadata, 'series' | 'volume' | 'chapter'> = {};
+  if (series) result.series = series;
+  if (volumeMatch) result.volume = parseFloat(volumeMatch[1]);
+  if (chapterMatch) result.chapter = parseFloat(chapterMatch[1]);
+  return result;
+};
+
+const seriesKey = (series: string) => series.trim().toLowerCase();
+
+// Reading order within a series: volume, then chapter, then title (natural sort)
+export const compareChapters = (a: LibraryItem, b: LibraryItem) => {
+  const volumeDiff = (a.volume ?? Infinity) - (b.volume ?? Infinity);
+  if (volumeDiff) return volumeDiff;
+  const chapterDiff = (a.chapter ?? Infinity) - (b.chapter ?? Infinity);
+  if (chapterDiff) return chapterDiff;
+  return a.title.localeCompare(b.title, undefined, { numeric: true, sensitivity: 'base' });
+};
+
+// Split library items into series groups and standalone entries (no series metadata)
+export const groupBySeries = (items: LibraryItem[]) => {
+  const groups = new Map<string, SeriesGroup>();
+  const standalone: LibraryItem[] = [];
+
+  items.forEach(item => {
+    if (!item.series) {
+      standalone.push(item);
+      return;
+    }
+    const key = seriesKey(item.series);
+    if (!groups.has(key)) groups.set(key, { key, name: item.series, items: [] });
+    groups.get(key)!.items.push(item);
+  });
+
+  const series = Array.from(groups.values());
+  series.forEach(group => group.items.sort(compareChapters));
+  series.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
+  return { series, standalone };
+};
+
+// The entry that follows `current` in its series, if any
+export const findNextChapter = (items: LibraryItem[], current: LibraryItem): LibraryItem | undefined => {
+  if (!current.series) return undefined;
+  const key = seriesKey(current.series);
+  const chapters = items
+    .filter(item => item.series && seriesKey(item.series) === key)
+    .sort(compareChapters);
+  const index = chapters.findIndex(item => item.id === current.id);
+  return index >= 0 ? chapters[index + 1] : undefined;
+};
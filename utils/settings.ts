@@ -0,0 +1,35 @@
+import { AppSettings } from '../types';
+
+const SETTINGS_KEY = 'mangalunar:settings';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  visionProvider: 'gemini',
+  analysisConcurrency: 2,
+  analysisRequestsPerMinute: 10, // Stays under Gemini's free-tier limit
+  translationLanguage: 'English',
+  imageQuality: 'balanced',
+};
+
+export const TRANSLATION_LANGUAGES = [
+  'English', 'Spanish', 'Portuguese', 'French', 'German', 'Italian',
+  'Russian', 'Indonesian', 'Vietnamese', 'Thai', 'Chinese (Simplified)', 'Korean', 'Japanese',
+];
+
+export const loadSettings = (): AppSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.warn('Failed to read settings, using defaults', error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const saveSettings = (settings: AppSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Settings from a library backup are only used where settings were never changed;
+// a device that already has its own keeps them
+export const mergeSettings = (incoming: Partial<AppSettings>): AppSettings =>
+  localStorage.getItem(SETTINGS_KEY) ? loadSettings() : { ...DEFAULT_SETTINGS, ...incoming };
@@ -0,0 +1,31 @@
+// Pages wider than they are tall are treated as double-page spreads and shown alone
+const WIDE_PAGE_RATIO = 1;
+
+// Group page indices into what is shown at once in two-page mode.
+// aspects maps page index -> width / height; unknown pages are assumed portrait.
+// With shiftCover the first page stands alone, like the cover of a printed volume.
+export const buildSpreads = (
+  pageCount: number,
+  aspects: Record<number, number>,
+  shiftCover: boolean,
+): number[][] => {
+  const isWide = (index: number) => (aspects[index] ?? 0) > WIDE_PAGE_RATIO;
+  const spreads: number[][] = [];
+
+  let i = 0;
+  if (shiftCover && pageCount > 0) {
+    spreads.push([0]);
+    i = 1;
+  }
+
+  while (i < pageCount) {
+    if (isWide(i) || i === pageCount - 1 || isWide(i + 1)) {
+      spreads.push([i]);
+      i += 1;
+    } else {
+      spreads.push([i, i + 1]);
+      i += 2;
+    }
+  }
+  return spreads;
+};
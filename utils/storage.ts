@@ -0,0 +1,419 @@
+import { AnalysisExport, LibraryItem, LibraryItemChanges, MangaItem, VisionProvider } from '../types';
+import { pickMetadata } from './comicInfo';
+import { hashBlob } from './hash';
+import { createThumbnail } from './thumbnails';
+
+// IndexedDB persistence for the library.
+// - "library" holds one metadata record per manga (plus the cover image blob)
+// - "pages" holds one record per page image, keyed by [mangaId, index]
+// - "analysis" caches vision provider results per page image hash (v2)
+// - "thumbnails" holds a small WebP of each page, keyed like "pages" (v3)
+const DB_NAME = 'mangalunar';
+const DB_VERSION = 3;
+const LIBRARY_STORE = 'library';
+const PAGES_STORE = 'pages';
+const ANALYSIS_STORE = 'analysis';
+const THUMBNAILS_STORE = 'thumbnails';
+
+interface StoredLibraryItem extends Omit<LibraryItem, 'coverUrl'> {
+  coverBlob: Blob;
+  coverThumbnail?: Blob; // Missing on entries saved before v3 until the library is next loaded
+  addedAt: number;
+  pageHashes?: string[]; // Missing on entries saved before v2 until they are next opened
+}
+
+// A library entry without its images, e.g. to compare a new import against
+export type LibraryRecord = Omit<LibraryItem, 'coverUrl'> & { pageHashes?: string[] };
+
+// Also the shape of a "thumbnails" record
+interface StoredPage {
+  mangaId: string;
+  index: number;
+  blob: Blob;
+}
+
+// 'bubbles' holds a page's SpeechBubble[], 'text' its extracted OCR text,
+// 'translation:<language>' the translated bubble texts (aligned with the cached bubbles)
+export type AnalysisKind = 'bubbles' | 'text' | `translation:${string}`;
+
+export interface StoredAnalysis {
+  key: string;
+  hash: string;
+  kind: AnalysisKind;
+  provider: string;
+  version: string;
+  value: unknown;
+  size: number; // Approximate, in bytes of JSON
+  cachedAt: number;
+}
+
+export interface AnalysisCacheUsage {
+  entries: number;
+  bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDB = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(LIBRARY_STORE)) {
+        db.createObjectStore(LIBRARY_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(PAGES_STORE)) {
+        db.createObjectStore(PAGES_STORE, { keyPath: ['mangaId', 'index'] });
+      }
+      if (!db.objectStoreNames.contains(ANALYSIS_STORE)) {
+        db.createObjectStore(ANALYSIS_STORE, { keyPath: 'key' }).createIndex('hash', 'hash');
+      }
+      if (!db.objectStoreNames.contains(THUMBNAILS_STORE)) {
+        db.createObjectStore(THUMBNAILS_STORE, { keyPath: ['mangaId', 'index'] });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+// Wrap a single IDBRequest in a promise
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve once a readwrite transaction has been committed
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+
+// All page keys of a manga: [id, 0] .. [id, +Infinity]
+const pageRange = (mangaId: string) =>
+  IDBKeyRange.bound([mangaId, 0], [mangaId, Infinity]);
+
+// The library grid shows the thumbnail; the full-size cover is only used as a fallback
+const toLibraryItem = (stored: StoredLibraryItem): LibraryItem => {
+  const { coverBlob, coverThumbnail, pageHashes, ...rest } = stored;
+  return { ...rest, coverUrl: URL.createObjectURL(coverThumbnail || coverBlob) };
+};
+
+// Load every library entry. Cover URLs are recreated from the stored blobs.
+export const getLibraryItems = async (): Promise<LibraryItem[]> => {
+  const db = await openDB();
+  const tx = db.transaction(LIBRARY_STORE, 'readonly');
+  const records = await requestToPromise<StoredLibraryItem[]>(tx.objectStore(LIBRARY_STORE).getAll());
+
+  // Entries saved before thumbnails existed get their cover thumbnail now, once
+  for (const record of records.filter(record => !record.coverThumbnail)) {
+    try {
+      record.coverThumbnail = await createThumbnail(record.coverBlob);
+      await updateStoredRecord(record.id, { coverThumbnail: record.coverThumbnail });
+    } catch (error) {
+      console.warn(`[Library] No cover thumbnail for "${record.title}"`, error);
+    }
+  }
+
+  return records
+    .sort((a, b) => a.addedAt - b.addedAt) // Import order, until the library view sorts them
+    .map(toLibraryItem);
+};
+
+// Persist a freshly imported manga. Pages are read and stored one at a time, so a big volume
+// is never held in memory at once; their hashes are computed on the way (unless the import
+// already has them) and returned.
+// If storage fails part-way, the pages written so far are removed and the error is rethrown.
+// The item's coverUrl is only for display and isn't stored.
+export const saveManga = async (
+  item: Omit<LibraryItem, 'coverUrl'> & { coverUrl?: string },
+  manga: Pick<MangaItem, 'pageCount' | 'loadPage' | 'pageHashes'>,
+  onProgress?: (fraction: number) => void,
+): Promise<string[]> => {
+  const db = await openDB();
+  const coverIndex = item.coverPage ?? 0;
+  const pageHashes: string[] = [];
+  let coverBlob: Blob | undefined;
+  let coverThumbnail: Blob | undefined;
+
+  try {
+    for (let index = 0; index < manga.pageCount; index++) {
+      const blob = await manga.loadPage(index);
+      pageHashes.push(manga.pageHashes?.[index] ?? await hashBlob(blob));
+      // Without a thumbnail the page grid makes one when it's first shown
+      const thumbnail = await createThumbnail(blob).catch(() => undefined);
+      if (index === coverIndex) {
+        coverBlob = blob;
+        coverThumbnail = thumbnail;
+      }
+
+      const tx = db.transaction([PAGES_STORE, THUMBNAILS_STORE], 'readwrite');
+      const page: StoredPage = { mangaId: item.id, index, blob };
+      tx.objectStore(PAGES_STORE).put(page);
+      if (thumbnail) tx.objectStore(THUMBNAILS_STORE).put({ ...page, blob: thumbnail });
+      await transactionDone(tx);
+      onProgress?.((index + 1) / manga.pageCount);
+    }
+
+    const { coverUrl, ...meta } = item;
+    const record: StoredLibraryItem = {
+      ...meta,
+      coverBlob: coverBlob || await manga.loadPage(0),
+      coverThumbnail,
+      totalPages: manga.pageCount,
+      addedAt: item.addedAt ?? Date.now(),
+      pageHashes,
+    };
+    const tx = db.transaction(LIBRARY_STORE, 'readwrite');
+    tx.objectStore(LIBRARY_STORE).put(record);
+    await transactionDone(tx);
+  } catch (error) {
+    const tx = db.transaction([PAGES_STORE, THUMBNAILS_STORE], 'readwrite');
+    tx.objectStore(PAGES_STORE).delete(pageRange(item.id));
+    tx.objectStore(THUMBNAILS_STORE).delete(pageRange(item.id));
+    await transactionDone(tx).catch(() => { /* Already failing; keep the original error */ });
+    throw error;
+  }
+
+  return pageHashes;
+};
+
+// Every entry's metadata and page hashes, without reading the cover images into URLs
+export const getLibraryRecords = async (): Promise<LibraryRecord[]> => {
+  const db = await openDB();
+  const tx = db.transaction(LIBRARY_STORE, 'readonly');
+  const records = await requestToPromise<StoredLibraryItem[]>(tx.objectStore(LIBRARY_STORE).getAll());
+  return records.map(({ coverBlob, coverThumbnail, ...record }) => record);
+};
+
+// Remove an entry with its pages and thumbnails. Cached analysis is kept, since it's keyed by
+// page hash and other entries may share those pages.
+export const deleteManga = async (id: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([LIBRARY_STORE, PAGES_STORE, THUMBNAILS_STORE], 'readwrite');
+  tx.objectStore(LIBRARY_STORE).delete(id);
+  tx.objectStore(PAGES_STORE).delete(pageRange(id));
+  tx.objectStore(THUMBNAILS_STORE).delete(pageRange(id));
+  await transactionDone(tx);
+};
+
+const updateStoredRecord = async (id: string, changes: Partial<StoredLibraryItem>): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction(LIBRARY_STORE, 'readwrite');
+  const store = tx.objectStore(LIBRARY_STORE);
+  const existing = await requestToPromise<StoredLibraryItem | undefined>(store.get(id));
+  if (!existing) return;
+
+  store.put({ ...existing, ...changes });
+  await transactionDone(tx);
+};
+
+// Merge changes (reading progress, reader settings...) into an existing entry
+export const updateLibraryItem = (id: string, changes: LibraryItemChanges): Promise<void> =>
+  updateStoredRecord(id, changes);
+
+// Read one stored page image
+export const loadStoredPage = async (mangaId: string, index: number): Promise<Blob> => {
+  const db = await openDB();
+  const store = db.transaction(PAGES_STORE, 'readonly').objectStore(PAGES_STORE);
+  const page = await requestToPromise<StoredPage | undefined>(store.get([mangaId, index]));
+  if (!page) throw new Error(`Page ${index + 1} is missing from storage`);
+  return page.blob;
+};
+
+// Read one page's thumbnail. Pages stored without one (saved before v3, or when the
+// worker couldn't draw) get it made from the full page and stored now.
+export const loadStoredThumbnail = async (mangaId: string, index: number): Promise<Blob> => {
+  const db = await openDB();
+  const store = db.transaction(THUMBNAILS_STORE, 'readonly').objectStore(THUMBNAILS_STORE);
+  const stored = await requestToPromise<StoredPage | undefined>(store.get([mangaId, index]));
+  if (stored) return stored.blob;
+
+  const blob = await createThumbnail(await loadStoredPage(mangaId, index));
+  const tx = db.transaction(THUMBNAILS_STORE, 'readwrite');
+  const thumbnail: StoredPage = { mangaId, index, blob };
+  tx.objectStore(THUMBNAILS_STORE).put(thumbnail);
+  await transactionDone(tx);
+  return blob;
+};
+
+// Load a manga for reading. Only the metadata is read here; pages are read on demand.
+export const loadManga = async (id: string): Promise<MangaItem> => {
+  const db = await openDB();
+  const tx = db.transaction([LIBRARY_STORE, PAGES_STORE], 'readonly');
+  const record = await requestToPromise<StoredLibraryItem | undefined>(tx.objectStore(LIBRARY_STORE).get(id));
+  if (!record) throw new Error(`Manga ${id} is not in the library`);
+
+  const pageCount = await requestToPromise<number>(tx.objectStore(PAGES_STORE).count(pageRange(id)));
+  if (pageCount === 0) throw new Error(`No pages stored for "${record.title}"`);
+
+  const loadPage = (index: number) => loadStoredPage(id, index);
+
+  // Entries saved before page hashing existed are hashed once, on first open
+  let pageHashes = record.pageHashes;
+  if (!pageHashes || pageHashes.length !== pageCount) {
+    pageHashes = [];
+    for (let index = 0; index < pageCount; index++) pageHashes.push(await hashBlob(await loadPage(index)));
+    await updateStoredRecord(id, { pageHashes });
+  }
+
+  return {
+    ...pickMetadata(record),
+    id: record.id,
+    title: record.title,
+    coverUrl: URL.createObjectURL(record.coverBlob),
+    pageCount,
+    loadPage,
+    loadThumbnail: index => loadStoredThumbnail(id, index),
+    pageHashes,
+  };
+};
+
+// Revoke the cover URL created by loadManga once the reader is closed.
+// Page URLs belong to the reader's page cache, which revokes them itself.
+export const releaseManga = (manga: MangaItem) => {
+  URL.revokeObjectURL(manga.coverUrl);
+};
+
+// --- Analysis cache ---
+// Results are keyed by page image hash plus provider id and cacheVersion, so re-importing
+// the same chapter reuses them, and changing model or prompt invalidates them.
+
+const analysisKey = (kind: AnalysisKind, provider: VisionProvider, hash: string) =>
+  `${kind}:${provider.id}:${provider.cacheVersion}:${hash}`;
+
+// Cached results for each hash, in order; undefined where nothing is cached
+export const getCachedAnalysis = async <T>(kind: AnalysisKind, provider: VisionProvider, hashes: string[]): Promise<(T | undefined)[]> => {
+  const db = await openDB();
+  const store = db.transaction(ANALYSIS_STORE, 'readonly').objectStore(ANALYSIS_STORE);
+  const records = await Promise.all(hashes.map(hash =>
+    requestToPromise<StoredAnalysis | undefined>(store.get(analysisKey(kind, provider, hash)))
+  ));
+  return records.map(record => record?.value as T | undefined);
+};
+
+export const putCachedAnalysis = async <T>(kind: AnalysisKind, provider: VisionProvider, entries: { hash: string, value: T }[]): Promise<void> => {
+  if (entries.length === 0) return;
+  const db = await openDB();
+  const tx = db.transaction(ANALYSIS_STORE, 'readwrite');
+  const store = tx.objectStore(ANALYSIS_STORE);
+  entries.forEach(({ hash, value }) => {
+    const record: StoredAnalysis = {
+      key: analysisKey(kind, provider, hash),
+      hash,
+      kind,
+      provider: provider.id,
+      version: provider.cacheVersion,
+      value,
+      size: JSON.stringify(value).length,
+      cachedAt: Date.now(),
+    };
+    store.put(record);
+  });
+  await transactionDone(tx);
+};
+
+// Cache the results carried by an analysis export (e.g. an annotated CBZ being imported),
+// as if the provider that produced them had just analyzed these pages
+export const restoreAnalysisExport = async (data: AnalysisExport, provider: VisionProvider, pageHashes: string[]): Promise<void> => {
+  const pages = data.pages.filter(page => pageHashes[page.index]);
+  await putCachedAnalysis('bubbles', provider, pages
+    .filter(page => page.bubbles)
+    .map(page => ({ hash: pageHashes[page.index], value: page.bubbles! })));
+  await putCachedAnalysis('text', provider, pages
+    .filter(page => page.text !== undefined)
+    .map(page => ({ hash: pageHashes[page.index], value: page.text! })));
+};
+
+// Cache usage per manga id, across all providers. Pages shared by two entries count for both.
+export const getAnalysisCacheUsage = async (): Promise<Record<string, AnalysisCacheUsage>> => {
+  const db = await openDB();
+  const tx = db.transaction([LIBRARY_STORE, ANALYSIS_STORE], 'readonly');
+  const [records, analyses] = await Promise.all([
+    requestToPromise<StoredLibraryItem[]>(tx.objectStore(LIBRARY_STORE).getAll()),
+    requestToPromise<StoredAnalysis[]>(tx.objectStore(ANALYSIS_STORE).getAll()),
+  ]);
+
+  const byHash = new Map<string, AnalysisCacheUsage>();
+  analyses.forEach(({ hash, size }) => {
+    const usage = byHash.get(hash) || { entries: 0, bytes: 0 };
+    byHash.set(hash, { entries: usage.entries + 1, bytes: usage.bytes + size });
+  });
+
+  const usage: Record<string, AnalysisCacheUsage> = {};
+  records.forEach(record => {
+    const total = { entries: 0, bytes: 0 };
+    new Set(record.pageHashes || []).forEach(hash => {
+      const pageUsage = byHash.get(hash);
+      if (!pageUsage) return;
+      total.entries += pageUsage.entries;
+      total.bytes += pageUsage.bytes;
+    });
+    if (total.entries > 0) usage[record.id] = total;
+  });
+  return usage;
+};
+
+// Every cached result, attributed to each library page it belongs to (used to build the search index)
+export const getCachedPageResults = async (): Promise<{ mangaId: string, pageIndex: number, kind: AnalysisKind, value: unknown }[]> => {
+  const db = await openDB();
+  const tx = db.transaction([LIBRARY_STORE, ANALYSIS_STORE], 'readonly');
+  const [records, analyses] = await Promise.all([
+    requestToPromise<StoredLibraryItem[]>(tx.objectStore(LIBRARY_STORE).getAll()),
+    requestToPromise<StoredAnalysis[]>(tx.objectStore(ANALYSIS_STORE).getAll()),
+  ]);
+
+  const pagesByHash = new Map<string, { mangaId: string, pageIndex: number }[]>();
+  records.forEach(record => record.pageHashes?.forEach((hash, pageIndex) => {
+    if (!pagesByHash.has(hash)) pagesByHash.set(hash, []);
+    pagesByHash.get(hash)!.push({ mangaId: record.id, pageIndex });
+  }));
+
+  return analyses.flatMap(({ hash, kind, value }) =>
+    (pagesByHash.get(hash) || []).map(page => ({ ...page, kind, value }))
+  );
+};
+
+// Every cached result, for library backups
+export const getAllCachedAnalysis = async (): Promise<StoredAnalysis[]> => {
+  const db = await openDB();
+  const store = db.transaction(ANALYSIS_STORE, 'readonly').objectStore(ANALYSIS_STORE);
+  return requestToPromise<StoredAnalysis[]>(store.getAll());
+};
+
+// Add cached results from a backup. Results already cached here are kept. Returns how many were added.
+export const restoreCachedAnalysis = async (records: StoredAnalysis[]): Promise<number> => {
+  if (records.length === 0) return 0;
+  const db = await openDB();
+  const tx = db.transaction(ANALYSIS_STORE, 'readwrite');
+  const store = tx.objectStore(ANALYSIS_STORE);
+  const existing = new Set(await requestToPromise(store.getAllKeys()));
+  const added = records.filter(record => !existing.has(record.key));
+  added.forEach(record => store.put(record));
+  await transactionDone(tx);
+  return added.length;
+};
+
+// Drop every cached result for a manga's pages, for all providers
+export const clearAnalysisCache = async (mangaId: string): Promise<void> => {
+  const db = await openDB();
+  const tx = db.transaction([LIBRARY_STORE, ANALYSIS_STORE], 'readwrite');
+  const record = await requestToPromise<StoredLibraryItem | undefined>(tx.objectStore(LIBRARY_STORE).get(mangaId));
+  if (!record?.pageHashes) return;
+
+  const store = tx.objectStore(ANALYSIS_STORE);
+  const hashIndex = store.index('hash');
+  new Set(record.pageHashes).forEach(hash => {
+    const request = hashIndex.getAllKeys(hash);
+    request.onsuccess = () => request.result.forEach(key => store.delete(key));
+  });
+  await transactionDone(tx);
+};
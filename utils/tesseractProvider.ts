@@ -0,0 +1,92 @@
+import type { Worker } from 'tesseract.js';
+import tesseractWorkerUrl from 'tesseract.js/dist/worker.min.js?url';
+import tesseractCoreUrl from 'tesseract.js-core/tesseract-core-lstm.wasm.js?url';
+import engTrainedDataUrl from '@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz?url';
+import { SpeechBubble, VisionProvider } from '../types';
+
+// Paragraphs below this confidence (0-100) are treated as noise (screentone, SFX)
+const MIN_CONFIDENCE = 55;
+
+// All assets are bundled with the app, so nothing is fetched from a CDN at runtime.
+// A single Tesseract worker is created lazily and reused.
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    workerPromise = (async () => {
+      const { createWorker, OEM, PSM } = await import('tesseract.js');
+      const response = await fetch(engTrainedDataUrl);
+      const data = new Uint8Array(await response.arrayBuffer());
+      const worker = await createWorker([{ code: 'eng', data }], OEM.LSTM_ONLY, {
+        workerPath: tesseractWorkerUrl,
+        corePath: tesseractCoreUrl,
+        workerBlobURL: false,
+        cacheMethod: 'none',
+      });
+      // Manga text is scattered across the page rather than laid out in columns
+      await worker.setParameters({ tessedit_pageseg_mode: PSM.SPARSE_TEXT });
+      return worker;
+    })();
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+const getImageSize = async (url: string) => {
+  const bitmap = await createImageBitmap(await (await fetch(url)).blob());
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+// Each recognized paragraph becomes a bubble, with its box scaled to 0-1000
+const recognizeBubbles = async (worker: Worker, url: string): Promise<SpeechBubble[]> => {
+  const [{ data }, size] = await Promise.all([
+    worker.recognize(url, {}, { text: true, blocks: true }),
+    getImageSize(url),
+  ]);
+
+  const bubbles: SpeechBubble[] = [];
+  (data.blocks || []).forEach(block => {
+    block.paragraphs.forEach(paragraph => {
+      const text = paragraph.text.replace(/\s+/g, ' ').trim();
+      if (paragraph.confidence < MIN_CONFIDENCE || text.length < 2) return;
+      const { x0, y0, x1, y1 } = paragraph.bbox;
+      bubbles.push({
+        text,
+        box_2d: [
+          Math.round((y0 / size.height) * 1000),
+          Math.round((x0 / size.width) * 1000),
+          Math.round((y1 / size.height) * 1000),
+          Math.round((x1 / size.width) * 1000),
+        ],
+      });
+    });
+  });
+  return bubbles;
+};
+
+export const tesseractProvider: VisionProvider = {
+  id: 'tesseract',
+  label: 'Tesseract (offline)',
+  description: 'Runs locally in a web worker, no network needed. English only; less accurate on stylized lettering.',
+  requiresNetwork: false,
+  cacheVersion: 'eng-4.0.0_best_int@1',
+  analyzePages: async (imageUrls) => {
+    const worker = await getWorker();
+    const results: SpeechBubble[][] = [];
+    for (const url of imageUrls) {
+      results.push(await recognizeBubbles(worker, url));
+    }
+    return results;
+  },
+  extractPageText: async (imageUrls) => {
+    const worker = await getWorker();
+    const results: string[] = [];
+    for (const url of imageUrls) {
+      const { data } = await worker.recognize(url);
+      results.push(data.text.trim());
+    }
+    return results;
+  },
+};
@@ -0,0 +1,27 @@
+// Downscales page images to WebP thumbnails, off the main thread.
+// Pages narrower than the requested width are re-encoded at their own size.
+
+interface ThumbnailRequest {
+  id: number;
+  blob: Blob;
+  width: number;
+}
+
+self.onmessage = async (e: MessageEvent<ThumbnailRequest>) => {
+  const { id, blob, width } = e.data;
+  try {
+    const bitmap = await createImageBitmap(blob);
+    const scale = Math.min(1, width / bitmap.width);
+    const canvas = new OffscreenCanvas(Math.max(1, Math.round(bitmap.width * scale)), Math.max(1, Math.round(bitmap.height * scale)));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Failed to get canvas context');
+
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+
+    self.postMessage({ id, blob: await canvas.convertToBlob({ type: 'image/webp', quality: 0.8 }) });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) });
+  }
+};
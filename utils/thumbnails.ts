@@ -0,0 +1,47 @@
+// Small WebP versions of page images, for library covers and the reader's page grid.
+// A single worker is created lazily and reused; requests run one at a time so a grid
+// full of pages doesn't decode dozens of full-size images at once.
+
+export const THUMBNAIL_WIDTH = 320; // px; covers and grid cells are shown at about half that
+
+type ThumbnailResponse = { id: number, blob: Blob } | { id: number, error: string };
+
+let worker: Worker | null = null;
+let nextId = 0;
+let queue: Promise<unknown> = Promise.resolve();
+const pending = new Map<number, { resolve: (blob: Blob) => void, reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./thumbnailWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<ThumbnailResponse>) => {
+      const request = pending.get(e.data.id);
+      pending.delete(e.data.id);
+      if ('blob' in e.data) request?.resolve(e.data.blob);
+      else request?.reject(new Error(e.data.error));
+    };
+    // A worker that fails to start takes its pending requests with it; the next request starts a new one
+    worker.onerror = (e) => {
+      pending.forEach(request => request.reject(new Error(e.message || 'Thumbnail worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+// Rejects where workers can't draw (no OffscreenCanvas); callers fall back to the full image
+export const createThumbnail = (blob: Blob, width = THUMBNAIL_WIDTH): Promise<Blob> => {
+  if (typeof OffscreenCanvas === 'undefined') {
+    return Promise.reject(new Error('Thumbnails need OffscreenCanvas support'));
+  }
+
+  const run = queue.then(() => new Promise<Blob>((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, blob, width });
+  }));
+  queue = run.catch(() => { /* The caller handles it */ });
+  return run;
+};
@@ -0,0 +1,104 @@
+import { TTSSettings } from '../types';
+
+export const DEFAULT_TTS_SETTINGS: TTSSettings = {
+  lang: 'en',
+  rate: 1,
+  pitch: 1,
+  volume: 1,
+  speakerVoices: false,
+  characterVoices: {},
+};
+
+// One utterance: a bubble (with its speaker, if known) or a page's whole OCR text
+export interface SpeechLine {
+  text: string;
+  speaker?: string;
+  bubbleIndex: number | null;
+}
+
+const languageOf = (voice: SpeechSynthesisVoice) => voice.lang.split(/[-_]/)[0].toLowerCase();
+
+// Voices list, waiting (up to 1s) for browsers that load it asynchronously
+export const loadVoices = async (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return voices;
+  return new Promise(resolve => {
+    const done = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', done);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener('voiceschanged', done);
+    setTimeout(done, 1000);
+  });
+};
+
+// Mobile browsers only allow speech after a user gesture; a silent utterance unlocks it
+export const unlockSpeech = () => {
+  const unlockMsg = new SpeechSynthesisUtterance('');
+  unlockMsg.volume = 0;
+  window.speechSynthesis.speak(unlockMsg);
+};
+
+// Voices for a language, best first (network "Google" voices sound better than most local ones)
+export const voicesForLanguage = (voices: SpeechSynthesisVoice[], lang: string) =>
+  voices
+    .filter(voice => languageOf(voice) === lang)
+    .sort((a, b) => Number(b.name.includes('Google')) - Number(a.name.includes('Google')));
+
+// Languages that have at least one voice, as two-letter codes
+export const availableLanguages = (voices: SpeechSynthesisVoice[]) =>
+  Array.from(new Set(voices.map(languageOf))).sort();
+
+export const narratorVoice = (voices: SpeechSynthesisVoice[], settings: TTSSettings) =>
+  voices.find(voice => voice.voiceURI === settings.voiceURI) || voicesForLanguage(voices, settings.lang)[0];
+
+// Give every new speaker a voice of the current language, preferring ones no one else uses.
+// Returns the updated map, or null if nothing changed.
+export const assignCharacterVoices = (speakers: string[], voices: SpeechSynthesisVoice[], settings: TTSSettings) => {
+  const candidates = voicesForLanguage(voices, settings.lang);
+  const newSpeakers = speakers.filter(speaker => !(speaker in settings.characterVoices));
+  if (candidates.length === 0 || newSpeakers.length === 0) return null;
+
+  const assigned = { ...settings.characterVoices };
+  const narratorURI = narratorVoice(voices, settings)?.voiceURI;
+  newSpeakers.forEach(speaker => {
+    const used = new Set(Object.values(assigned));
+    const unused = candidates.filter(voice => !used.has(voice.voiceURI) && voice.voiceURI !== narratorURI);
+    // Once every voice is taken, cycle through them again
+    const voice = unused[0] || candidates[Object.keys(assigned).length % candidates.length];
+    assigned[speaker] = voice.voiceURI;
+  });
+  return assigned;
+};
+
+// Queue lines on the speech engine. Callers cancel() first if something else is playing.
+export const speakLines = (
+  lines: SpeechLine[],
+  voices: SpeechSynthesisVoice[],
+  settings: TTSSettings,
+  onLineStart: (line: SpeechLine) => void,
+  onFinished: (completed: boolean) => void, // completed is false when speech was cancelled
+) => {
+  const narrator = narratorVoice(voices, settings);
+
+  lines.forEach((line, i) => {
+    const utterance = new SpeechSynthesisUtterance(line.text);
+    const characterVoiceURI = settings.speakerVoices && line.speaker ? settings.characterVoices[line.speaker] : undefined;
+    const voice = (characterVoiceURI && voices.find(v => v.voiceURI === characterVoiceURI)) || narrator;
+    if (voice) utterance.voice = voice;
+    utterance.lang = voice?.lang || settings.lang;
+    utterance.rate = settings.rate;
+    utterance.pitch = settings.pitch;
+    utterance.volume = settings.volume;
+
+    const isLast = i === lines.length - 1;
+    utterance.onstart = () => onLineStart(line);
+    utterance.onend = () => { if (isLast) onFinished(true); };
+    utterance.onerror = (e) => {
+      const cancelled = e.error === 'interrupted' || e.error === 'canceled';
+      if (!cancelled) console.warn('[TTS] Utterance failed', e.error);
+      if (isLast) onFinished(!cancelled);
+    };
+    window.speechSynthesis.speak(utterance);
+  });
+};
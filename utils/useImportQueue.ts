@@ -0,0 +1,67 @@
+import { useCallback, useRef, useState } from 'react';
+import { ImportSource, MangaItem } from '../types';
+
+export interface ImportJob {
+  id: string;
+  name: string;
+  status: 'queued' | 'importing' | 'done' | 'skipped' | 'error';
+  progress: number; // 0-1
+  error?: string;
+}
+
+// Resolves to null when the import was skipped (e.g. a duplicate the user chose not to import)
+type Importer = (source: ImportSource, onProgress: (fraction: number) => void) => Promise<MangaItem | null>;
+
+// Imports files one at a time in the background, so the library stays usable.
+// onImported gets each new manga; `single` is true when it was the only file of its batch
+// (bulk imports shouldn't jump into the reader).
+export const useImportQueue = (importSource: Importer, onImported: (manga: MangaItem, single: boolean) => void) => {
+  const [jobs, setJobs] = useState<ImportJob[]>([]);
+  const pending = useRef<{ id: string, source: ImportSource, single: boolean }[]>([]);
+  const running = useRef(false);
+
+  // Always call the latest callbacks, since they read App state
+  const importRef = useRef(importSource);
+  importRef.current = importSource;
+  const importedRef = useRef(onImported);
+  importedRef.current = onImported;
+
+  const updateJob = (id: string, changes: Partial<ImportJob>) =>
+    setJobs(prev => prev.map(job => job.id === id ? { ...job, ...changes } : job));
+
+  const runQueue = async () => {
+    if (running.current) return;
+    running.current = true;
+    while (pending.current.length > 0) {
+      const { id, source, single } = pending.current.shift()!;
+      updateJob(id, { status: 'importing' });
+      try {
+        const manga = await importRef.current(source, progress => updateJob(id, { progress }));
+        if (manga) {
+          updateJob(id, { status: 'done', progress: 1 });
+          importedRef.current(manga, single);
+        } else {
+          updateJob(id, { status: 'skipped' });
+        }
+      } catch (error) {
+        console.error("Failed to import", source.name, error);
+        updateJob(id, { status: 'error', error: error instanceof Error ? error.message : 'Failed to import.' });
+      }
+    }
+    running.current = false;
+  };
+
+  const enqueue = useCallback((sources: ImportSource[]) => {
+    const added = sources.map(source => ({ id: crypto.randomUUID(), source, single: sources.length === 1 }));
+    pending.current.push(...added);
+    setJobs(prev => [...prev, ...added.map(({ id, source }): ImportJob => ({ id, name: source.name, status: 'queued', progress: 0 }))]);
+    runQueue();
+  }, []);
+
+  // Remove finished, skipped and failed jobs from the list
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(job => job.status === 'queued' || job.status === 'importing'));
+  }, []);
+
+  return { jobs, enqueue, clearFinished };
+};
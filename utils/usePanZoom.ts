@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const DOUBLE_TAP_SCALE = 2.5;
+const DRAG_THRESHOLD = 6; // px of movement before a press counts as a drag instead of a tap
+
+export interface PanZoomState {
+  scale: number;
+  x: number; // Translation in px, relative to the centered position
+  y: number;
+}
+
+export type PanAlign = 'start' | 'center' | 'end';
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+// Pinch/wheel zoom and drag/wheel panning for content centered inside a viewport.
+// The transform is applied to a single content element (image + overlays), so anything
+// positioned inside it in % stays aligned with the image.
+export const usePanZoom = (enabled: boolean) => {
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  const [view, setView] = useState<PanZoomState>({ scale: 1, x: 0, y: 0 });
+  const viewRef = useRef(view);
+  viewRef.current = view;
+
+  const pointers = useRef<Map<number, { x: number, y: number }>>(new Map());
+  const pinchDistance = useRef<number | null>(null);
+  const dragDistance = useRef(0);
+
+  // How far the scaled content sticks out past the viewport on each side
+  const getOverflow = (scale: number) => {
+    const viewport = viewportRef.current;
+    const content = contentRef.current;
+    if (!viewport || !content) return { x: 0, y: 0 };
+    return {
+      x: Math.max((content.offsetWidth * scale - viewport.clientWidth) / 2, 0),
+      y: Math.max((content.offsetHeight * scale - viewport.clientHeight) / 2, 0),
+    };
+  };
+
+  const clampView = useCallback((next: PanZoomState): PanZoomState => {
+    const scale = clampScale(next.scale);
+    const overflow = getOverflow(scale);
+    return {
+      scale,
+      x: Math.min(Math.max(next.x, -overflow.x), overflow.x),
+      y: Math.min(Math.max(next.y, -overflow.y), overflow.y),
+    };
+  }, []);
+
+  // Zoom keeping the point under (clientX, clientY) fixed on screen
+  const zoomAt = useCallback((clientX: number, clientY: number, scale: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const rect = viewport.getBoundingClientRect();
+    const px = clientX - (rect.left + rect.width / 2);
+    const py = clientY - (rect.top + rect.height / 2);
+    setView(prev => {
+      const nextScale = clampScale(scale);
+      const ratio = nextScale / prev.scale;
+      return clampView({ scale: nextScale, x: px - (px - prev.x) * ratio, y: py - (py - prev.y) * ratio });
+    });
+  }, [clampView]);
+
+  const panBy = useCallback((dx: number, dy: number) => {
+    setView(prev => clampView({ ...prev, x: prev.x + dx, y: prev.y + dy }));
+  }, [clampView]);
+
+  // Back to 1x, showing the given edge of content that overflows (e.g. the top of a fit-width page)
+  const reset = useCallback((alignX: PanAlign = 'center', alignY: PanAlign = 'center') => {
+    const overflow = getOverflow(1);
+    const position = (align: PanAlign, max: number) => align === 'start' ? max : align === 'end' ? -max : 0;
+    setView({ scale: 1, x: position(alignX, overflow.x), y: position(alignY, overflow.y) });
+  }, []);
+
+  const toggleZoom = useCallback((clientX: number, clientY: number) => {
+    if (viewRef.current.scale > 1) reset();
+    else zoomAt(clientX, clientY, DOUBLE_TAP_SCALE);
+  }, [reset, zoomAt]);
+
+  // True (once) if the last press moved far enough to be a drag, so the click should be ignored
+  const consumeDrag = useCallback(() => {
+    const dragged = dragDistance.current > DRAG_THRESHOLD;
+    dragDistance.current = 0;
+    return dragged;
+  }, []);
+
+  // Wheel: ctrl/pinch-trackpad zooms, plain wheel pans. Needs a non-passive native listener.
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!enabled || !viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (e.ctrlKey) {
+        e.preventDefault();
+        zoomAt(e.clientX, e.clientY, viewRef.current.scale * Math.exp(-e.deltaY * 0.01));
+        return;
+      }
+      const overflow = getOverflow(viewRef.current.scale);
+      if (overflow.x === 0 && overflow.y === 0) return;
+      e.preventDefault();
+      panBy(-e.deltaX, -e.deltaY);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [enabled, zoomAt, panBy]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    pointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (pointers.current.size === 1) dragDistance.current = 0;
+    pinchDistance.current = null;
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    const current = { x: e.clientX, y: e.clientY };
+    pointers.current.set(e.pointerId, current);
+
+    if (pointers.current.size === 2) {
+      // Pinch: scale by the change in finger distance around their midpoint
+      const [a, b]: { x: number, y: number }[] = Array.from(pointers.current.values());
+      const distance = Math.hypot(a.x - b.x, a.y - b.y);
+      if (pinchDistance.current) {
+        zoomAt((a.x + b.x) / 2, (a.y + b.y) / 2, viewRef.current.scale * (distance / pinchDistance.current));
+      }
+      pinchDistance.current = distance;
+      dragDistance.current = Infinity;
+      return;
+    }
+
+    const dx = current.x - previous.x;
+    const dy = current.y - previous.y;
+    dragDistance.current += Math.hypot(dx, dy);
+    if (dragDistance.current > DRAG_THRESHOLD) {
+      if (!e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.setPointerCapture(e.pointerId);
+      panBy(dx, dy);
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    pointers.current.delete(e.pointerId);
+    pinchDistance.current = null;
+  };
+
+  return {
+    viewportRef,
+    contentRef,
+    view,
+    zoomAt,
+    reset,
+    toggleZoom,
+    consumeDrag,
+    handlers: enabled ? { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp, onPointerLeave: onPointerUp } : {},
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+  };
+};
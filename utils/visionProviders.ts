@@ -0,0 +1,13 @@
+import { VisionProvider, VisionProviderId } from '../types';
+import { geminiProvider } from './ocr';
+import { tesseractProvider } from './tesseractProvider';
+import { fakeProvider } from './fakeProvider';
+
+export const VISION_PROVIDERS: Record<VisionProviderId, VisionProvider> = {
+  gemini: geminiProvider,
+  tesseract: tesseractProvider,
+  fake: fakeProvider,
+};
+
+export const getVisionProvider = (id: VisionProviderId): VisionProvider =>
+  VISION_PROVIDERS[id] || geminiProvider;
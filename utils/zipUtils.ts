@@ -1,39 +1,101 @@
-import JSZip from 'jszip';
-import { MangaItem } from '../types';
-
-export const processMangaFile = async (file: File): Promise<MangaItem> => {
-  const zip = new JSZip();
-  const zipContent = await zip.loadAsync(file);
-  
-  const imageFiles: { name: string; blob: Blob }[] = [];
-
-  // Iterate over files in the zip
-  const entries = Object.keys(zipContent.files).filter((filename) => {
-    // Filter out directories and non-image files (basic check)
-    return !zipContent.files[filename].dir && /\.(jpg|jpeg|png|webp|gif)$/i.test(filename);
-  });
-
-  // Sort alphanumerically to ensure correct page order
-  // Using 'numeric' collation handles "1.jpg", "2.jpg", "10.jpg" correctly
-  entries.sort((a, b) => a.localeCompare(b, undefined, { numeric: true, sensitivity: 'base' }));
-
-  for (const filename of entries) {
-    const fileData = zipContent.files[filename];
-    const blob = await fileData.async('blob');
-    imageFiles.push({ name: filename, blob });
-  }
+import { ImageFolder, ImportedManga, MangaItem } from '../types';
+import { ArchiveFormat, FORMAT_LABELS, detectArchiveFormat } from './formatDetection';
+import { ExtractedArchive, extract7z, extractFolder, extractPdf, extractRar, extractZip } from './extractors';
+import { parseComicInfo } from './comicInfo';
+import { parseFilenameMetadata } from './series';
+import { hashBlob, hashBytes } from './hash';
+import { parseSidecar } from './analysisExport';
+import { createThumbnail } from './thumbnails';
+
+const EXTRACTORS: Record<Exclude<ArchiveFormat, 'unknown'>, (data: ArrayBuffer) => Promise<ExtractedArchive>> = {
+  zip: extractZip,
+  rar: extractRar,
+  '7z': extract7z,
+  pdf: extractPdf,
+};
 
-  if (imageFiles.length === 0) {
-    throw new Error("No valid images found in the archive.");
+// Hash every page, reading one page at a time
+const hashPages = async (manga: MangaItem, onProgress?: (fraction: number) => void): Promise<string[]> => {
+  const hashes: string[] = [];
+  for (let i = 0; i < manga.pageCount; i++) {
+    hashes.push(await hashBlob(await manga.loadPage(i)));
+    onProgress?.((i + 1) / manga.pageCount);
   }
+  return hashes;
+};
+
+// Metadata, cover and page hashes for an opened archive. `name` is the file or folder name.
+// Pages stay in the archive and are read through manga.loadPage. The archive is closed if this fails.
+const toImportedManga = async (name: string, archive: ExtractedArchive, onProgress?: (fraction: number) => void): Promise<ImportedManga> => {
+  let coverUrl: string | undefined;
+  let manga: MangaItem;
+  try {
+    // ComicInfo.xml wins; the filename fills in series/volume/chapter when it's missing
+    const metadata = {
+      ...parseFilenameMetadata(name),
+      ...(archive.comicInfoXml ? parseComicInfo(archive.comicInfoXml, archive.pageCount) : {}),
+    };
+
+    // FrontCover page if marked, else the first page
+    coverUrl = URL.createObjectURL(await archive.loadPage(metadata.coverPage ?? 0));
 
-  // Create Object URLs
-  const pages = imageFiles.map(img => URL.createObjectURL(img.blob));
+    manga = {
+      ...metadata,
+      id: crypto.randomUUID(),
+      title: name.replace(/\.(cbz|zip|cbr|rar|cb7|7z|pdf)$/i, ''),
+      coverUrl,
+      pageCount: archive.pageCount,
+      loadPage: archive.loadPage,
+      loadThumbnail: async (index) => createThumbnail(await archive.loadPage(index)),
+    };
+
+    // Page hashes let the import be compared with the library before anything is stored
+    manga.pageHashes = await hashPages(manga, onProgress);
+  } catch (error) {
+    if (coverUrl) URL.revokeObjectURL(coverUrl);
+    archive.close();
+    throw error;
+  }
 
   return {
-    id: crypto.randomUUID(),
-    title: file.name.replace(/\.(cbz|zip)$/i, ''),
-    coverUrl: pages[0], // Use first page as cover
-    pages: pages,
+    manga,
+    sidecar: archive.sidecarJson ? parseSidecar(archive.sidecarJson, archive.pageCount) || undefined : undefined,
+    close: archive.close,
   };
-};
\ No newline at end of file
+};
+
+export const processMangaFile = async (file: File, onProgress?: (fraction: number) => void): Promise<ImportedManga> => {
+  const format = await detectArchiveFormat(file);
+  if (format === 'unknown') {
+    throw new Error(`"${file.name}" is not a supported format. Use a CBZ/ZIP, CBR/RAR, CB7/7z or PDF file.`);
+  }
+
+  // Read once: hashed here, then handed to the extractor
+  const data = await file.arrayBuffer();
+  const sourceHash = await hashBytes(data);
+
+  let archive: ExtractedArchive;
+  try {
+    archive = await EXTRACTORS[format](data);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read "${file.name}" as ${FORMAT_LABELS[format]}: ${reason}`);
+  }
+
+  if (archive.pageCount === 0) {
+    archive.close();
+    throw new Error(`No valid images found in the ${FORMAT_LABELS[format]} file "${file.name}".`);
+  }
+
+  const imported = await toImportedManga(file.name, archive, onProgress);
+  return { ...imported, sourceHash };
+};
+
+// A folder of loose images becomes one manga, named after the folder
+export const processImageFolder = async (folder: ImageFolder, onProgress?: (fraction: number) => void): Promise<ImportedManga> => {
+  const archive = await extractFolder(folder.files);
+  if (archive.pageCount === 0) {
+    throw new Error(`No valid images found in the folder "${folder.name}".`);
+  }
+  return toImportedManga(folder.name, archive, onProgress);
+};
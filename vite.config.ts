@@ -1,7 +1,33 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes the service worker (sw.js) with the list of built files to precache. Its cache is
+// versioned by their contents, so a new build replaces the old cache.
+const serviceWorker = (): Plugin => ({
+  name: 'mangalunar-service-worker',
+  apply: 'build',
+  generateBundle(_, bundle) {
+    const files = Object.keys(bundle).sort();
+    const hash = createHash('sha256');
+    files.forEach(fileName => {
+      const output = bundle[fileName];
+      hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source);
+    });
+    const template = readFileSync(path.resolve(__dirname, 'sw.js'), 'utf8');
+    hash.update(template);
+
+    const precache = { version: hash.digest('hex').slice(0, 12), files: files.map(fileName => `/${fileName}`) };
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: template.replace('self.__PRECACHE__', JSON.stringify(precache)),
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +35,7 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorker()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)